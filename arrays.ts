@@ -0,0 +1,263 @@
+/**
+ * Live array-like views over runs of equally spaced elements in a struct
+ * @module
+ */
+
+import {
+  ArrayView,
+  getItemSymbol,
+  setItemSymbol,
+  type Struct,
+  structDataView,
+  structLittleEndian,
+} from "./core.ts"
+import type { StructPropertyDescriptor } from "./types.ts"
+
+/**
+ * A TypedArray holding numbers of the given JavaScript type
+ */
+export type NumberTypedArray<T extends number | bigint> = T extends bigint
+  ? BigInt64Array | BigUint64Array
+  :
+    | Int8Array
+    | Uint8Array
+    | Int16Array
+    | Uint16Array
+    | Int32Array
+    | Uint32Array
+    | Float16Array
+    | Float32Array
+    | Float64Array
+
+/**
+ * Name of a numeric element type, named like the corresponding field factory
+ */
+export type NumberType =
+  | "u8"
+  | "i8"
+  | "u16"
+  | "i16"
+  | "u32"
+  | "i32"
+  | "u64"
+  | "i64"
+  | "f16"
+  | "f32"
+  | "f64"
+
+/**
+ * JavaScript type of a numeric element
+ */
+export type NumberTypeValue<Type extends NumberType> = Type extends
+  "u64" | "i64" ? bigint : number
+
+type NumberTypeInfo = {
+  readonly byteLength: number
+  get(dv: DataView, offset: number, littleEndian: boolean): number | bigint
+  set(
+    dv: DataView,
+    offset: number,
+    value: number | bigint,
+    littleEndian: boolean,
+  ): void
+  species(): { new (length: number): NumberTypedArray<number | bigint> }
+}
+
+const NUMBER_TYPES: Record<NumberType, NumberTypeInfo> = {
+  u8: {
+    byteLength: 1,
+    get: (dv, offset) => dv.getUint8(offset),
+    set: (dv, offset, value) => dv.setUint8(offset, Number(value)),
+    species: () => Uint8Array,
+  },
+  i8: {
+    byteLength: 1,
+    get: (dv, offset) => dv.getInt8(offset),
+    set: (dv, offset, value) => dv.setInt8(offset, Number(value)),
+    species: () => Int8Array,
+  },
+  u16: {
+    byteLength: 2,
+    get: (dv, offset, le) => dv.getUint16(offset, le),
+    set: (dv, offset, value, le) => dv.setUint16(offset, Number(value), le),
+    species: () => Uint16Array,
+  },
+  i16: {
+    byteLength: 2,
+    get: (dv, offset, le) => dv.getInt16(offset, le),
+    set: (dv, offset, value, le) => dv.setInt16(offset, Number(value), le),
+    species: () => Int16Array,
+  },
+  u32: {
+    byteLength: 4,
+    get: (dv, offset, le) => dv.getUint32(offset, le),
+    set: (dv, offset, value, le) => dv.setUint32(offset, Number(value), le),
+    species: () => Uint32Array,
+  },
+  i32: {
+    byteLength: 4,
+    get: (dv, offset, le) => dv.getInt32(offset, le),
+    set: (dv, offset, value, le) => dv.setInt32(offset, Number(value), le),
+    species: () => Int32Array,
+  },
+  u64: {
+    byteLength: 8,
+    get: (dv, offset, le) => dv.getBigUint64(offset, le),
+    set: (dv, offset, value, le) => dv.setBigUint64(offset, BigInt(value), le),
+    species: () => BigUint64Array,
+  },
+  i64: {
+    byteLength: 8,
+    get: (dv, offset, le) => dv.getBigInt64(offset, le),
+    set: (dv, offset, value, le) => dv.setBigInt64(offset, BigInt(value), le),
+    species: () => BigInt64Array,
+  },
+  f16: {
+    byteLength: 2,
+    get: (dv, offset, le) => dv.getFloat16(offset, le),
+    set: (dv, offset, value, le) => dv.setFloat16(offset, Number(value), le),
+    species: () => Float16Array,
+  },
+  f32: {
+    byteLength: 4,
+    get: (dv, offset, le) => dv.getFloat32(offset, le),
+    set: (dv, offset, value, le) => dv.setFloat32(offset, Number(value), le),
+    species: () => Float32Array,
+  },
+  f64: {
+    byteLength: 8,
+    get: (dv, offset, le) => dv.getFloat64(offset, le),
+    set: (dv, offset, value, le) => dv.setFloat64(offset, Number(value), le),
+    species: () => Float64Array,
+  },
+}
+
+/**
+ * Size in bytes of a numeric element type
+ */
+export function numberTypeByteLength(type: NumberType): number {
+  if (!Object.hasOwn(NUMBER_TYPES, type)) {
+    throw new TypeError(`unknown number type '${type}'`)
+  }
+  if (
+    type === "f16" && typeof DataView.prototype.getFloat16 !== "function"
+  ) {
+    throw new TypeError("float16 is not supported in this environment")
+  }
+  return NUMBER_TYPES[type].byteLength
+}
+
+/**
+ * Live view of numbers in a struct, with a chosen element type, byte order, and spacing.
+ * Items can be read and written by index like an array, e.g. `view[0] = 1`
+ */
+export class NumberArray<T extends number | bigint> extends ArrayView<T> {
+  #type: NumberType
+  #byteStride: number
+  override get [Symbol.toStringTag](): string {
+    return NumberArray.name
+  }
+
+  /**
+   * Create a new view
+   * @param arg memory of the array and its byte order, as for `Struct`.
+   * @param options element type and spacing
+   */
+  constructor(
+    arg: ConstructorParameters<typeof Struct>[0],
+    options: {
+      /** type of each item */
+      readonly type: NumberType
+      /** number of items, or a function returning the number of items. If omitted, as many items as fit in the memory */
+      readonly length?: number | (() => number)
+      /** number of bytes between the start of consecutive items. Defaults to the size of an item */
+      readonly byteStride?: number
+    },
+  ) {
+    const itemLength = numberTypeByteLength(options.type)
+    const byteStride = options.byteStride ?? itemLength
+    super(arg, { byteStride, itemLength, length: options.length })
+    this.#type = options.type
+    this.#byteStride = byteStride
+  }
+
+  [getItemSymbol](index: number): T {
+    return NUMBER_TYPES[this.#type].get(
+      structDataView(this),
+      index * this.#byteStride,
+      structLittleEndian(this),
+    ) as T
+  }
+
+  [setItemSymbol](index: number, value: T): void {
+    NUMBER_TYPES[this.#type].set(
+      structDataView(this),
+      index * this.#byteStride,
+      value,
+      structLittleEndian(this),
+    )
+  }
+
+  /**
+   * Copy the items into a new TypedArray of the matching type, in the platform's native byte order
+   */
+  toTypedArray(): NumberTypedArray<T> {
+    const species = NUMBER_TYPES[this.#type].species()
+    const result = new species(this.length)
+    for (let i = 0; i < result.length; ++i) {
+      result[i] = this[getItemSymbol](i)
+    }
+    return result as NumberTypedArray<T>
+  }
+}
+
+/**
+ * Live view of equally spaced fields of any type in a struct, like strings, structs, or other arrays.
+ * Items can be read and written by index like an array, e.g. `view[0] = "name"`
+ */
+export class FieldArray<T> extends ArrayView<T> {
+  #item: (byteOffset: number) => StructPropertyDescriptor<T>
+  #byteStride: number
+  override get [Symbol.toStringTag](): string {
+    return FieldArray.name
+  }
+
+  /**
+   * Create a new view
+   * @param arg memory of the array and its byte order, as for `Struct`.
+   * @param options field of each item and spacing
+   */
+  constructor(
+    arg: ConstructorParameters<typeof Struct>[0],
+    options: {
+      /** factory for the field of each item, given its offset from the start of the array */
+      readonly item: (byteOffset: number) => StructPropertyDescriptor<T>
+      /** number of bytes between the start of consecutive items */
+      readonly byteStride: number
+      /** number of bytes of an item. Defaults to `byteStride` */
+      readonly itemLength?: number
+      /** number of items, or a function returning the number of items. If omitted, as many items as fit in the memory */
+      readonly length?: number | (() => number)
+    },
+  ) {
+    super(arg, options)
+    this.#item = options.item
+    this.#byteStride = options.byteStride
+  }
+
+  [getItemSymbol](index: number): T {
+    const { get } = this.#item(index * this.#byteStride)
+    if (!get) {
+      throw new TypeError("field is not readable")
+    }
+    return get.call(this)
+  }
+
+  [setItemSymbol](index: number, value: T): void {
+    const { set } = this.#item(index * this.#byteStride)
+    if (!set) {
+      throw new TypeError("field is not writable")
+    }
+    set.call(this, value)
+  }
+}
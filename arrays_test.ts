@@ -0,0 +1,123 @@
+import { FieldArray, NumberArray } from "./arrays.ts"
+import { defineArray, defineStruct } from "./core.ts"
+import { numberArray, u16, u8 } from "./fields.ts"
+
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert"
+
+Deno.test("numberArray", () => {
+  const bytes = new Uint8Array(16)
+  class Samples extends defineStruct({
+    count: u8(0),
+    be: numberArray(2, { type: "u16", length: 3, littleEndian: false }),
+    le: numberArray(2, { type: "u16", length: 3 }),
+    dynamic: numberArray(8, { type: "u8", length: "count" }),
+    strided: numberArray(8, { type: "u8", byteStride: 2 }),
+  }) {}
+  assertEquals(Samples.fields.be, {
+    byteOffset: 2,
+    byteLength: 6,
+    byteAlign: 2,
+  })
+  const s = new Samples(bytes)
+  assertInstanceOf(s.be, NumberArray)
+  assertEquals(String(s.be), "[object NumberArray]")
+  assertEquals(s.be.length, 3)
+
+  s.be[1] = 0x0102
+  assertEquals([bytes[4], bytes[5]], [0x01, 0x02])
+  assertEquals(s.be[1], 0x0102)
+  assertEquals(s.le[1], 0x0201)
+  assertEquals(s.be.at(-2), 0x0102)
+  assertEquals(s.be.at(3), undefined)
+  assertEquals(s.be[3], undefined)
+  assertThrows(() => {
+    s.be[3] = 0
+  }, RangeError)
+
+  s.be.set([1, 2], 1)
+  assertEquals([...s.be], [0, 1, 2])
+  assertEquals(s.be.toArray(), [0, 1, 2])
+  const copy = s.le.toTypedArray()
+  assertInstanceOf(copy, Uint16Array)
+  assertEquals([...copy], [0, 0x0100, 0x0200])
+  assertThrows(() => s.be.set([1, 2, 3], 1), RangeError)
+
+  // assigning to the field copies items
+  Object.assign(s, { le: [7, 8, 9] })
+  assertEquals([...s.be], [0x0700, 0x0800, 0x0900])
+  assertThrows(() => {
+    Object.assign(s, { le: [1] })
+  }, RangeError)
+
+  // length follows the referenced property
+  const dynamic = s.dynamic
+  assertEquals(dynamic.length, 0)
+  s.count = 2
+  assertEquals(dynamic.length, 2)
+  dynamic[1] = 5
+  assertEquals(bytes[9], 5)
+
+  // without a length, the array extends to the end of the struct
+  assertEquals(s.strided.length, 4)
+  s.strided[3] = 42
+  assertEquals(bytes[14], 42)
+
+  assertThrows(
+    () => numberArray(0, { type: "u8", byteStride: 0 }),
+    RangeError,
+  )
+  assertThrows(
+    () => numberArray(0, { type: "u16", byteStride: -2 }),
+    RangeError,
+  )
+})
+
+Deno.test("numberArray bigints and floats", () => {
+  const bytes = new Uint8Array(16)
+  const S = defineStruct({
+    big: numberArray(0, { type: "i64", length: 2, littleEndian: false }),
+    floats: numberArray(0, { type: "f32", length: 4 }),
+  })
+  const s = new S(bytes)
+  s.big[0] = -2n
+  assertEquals(s.big[0], -2n)
+  assertEquals(bytes[7], 0xfe)
+  assertInstanceOf(s.big.toTypedArray(), BigInt64Array)
+  s.floats[3] = 1.5
+  assertEquals(s.floats.toTypedArray()[3], 1.5)
+  assertThrows(() => numberArray(0, { type: "u128" as "u8" }), TypeError)
+})
+
+Deno.test("array views", () => {
+  // items are counted alike over memory which ends partway through a stride
+  const bytes = new Uint8Array(10)
+  class Pair extends defineStruct({ a: u16(0) }, { byteLength: 2 }) {}
+  class Pairs extends defineArray({ struct: Pair, byteStride: 4 }) {}
+  const numbers = new NumberArray(bytes, { type: "u16", byteStride: 4 })
+  const fields = new FieldArray(bytes, { item: u16, byteStride: 4 })
+  const sized = new FieldArray(bytes, {
+    item: u16,
+    byteStride: 4,
+    itemLength: 2,
+  })
+  const structs = new Pairs(bytes)
+  assertEquals(
+    [numbers.length, sized.length, fields.length, structs.length],
+    [3, 3, 2, 2],
+  )
+  numbers.set([1, 2, 3])
+  assertEquals(sized.toArray(), [1, 2, 3])
+  assertEquals(structs.toArray().map((p) => p.a), [1, 2])
+  assertEquals(fields.at(-1), 2)
+  assertEquals(JSON.stringify(numbers), "[1,2,3]")
+  assertEquals(JSON.stringify(structs), '[{"a":1},{"a":2}]')
+
+  // a view of part of an array of fixed length has its own length
+  class Triple
+    extends defineArray({ struct: Pair, length: 3, byteStride: 4 }) {}
+  const triple = new Triple()
+  triple.set([{ a: 1 }, { a: 2 }, { a: 3 }])
+  const part = triple.subarray(1)
+  assertEquals(part.length, 2)
+  assertEquals([...part].map((p) => p.a), [2, 3])
+})
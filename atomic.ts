@@ -0,0 +1,270 @@
+/**
+ * Live views of integers in a struct which are read and written with `Atomics`, for sharing structs between workers
+ * @module
+ */
+
+import type { NumberType } from "./arrays.ts"
+import {
+  jsonSymbol,
+  Struct,
+  structDataView,
+  structLittleEndian,
+} from "./core.ts"
+
+/**
+ * Integer types which support atomic access
+ */
+export type AtomicType = Exclude<NumberType, "f16" | "f32" | "f64">
+
+type IntegerTypedArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array
+
+const SPECIES: Record<
+  AtomicType,
+  {
+    new (
+      buffer: ArrayBufferLike,
+      byteOffset: number,
+      length: number,
+    ): IntegerTypedArray
+    readonly BYTES_PER_ELEMENT: number
+  }
+> = {
+  i8: Int8Array,
+  u8: Uint8Array,
+  i16: Int16Array,
+  u16: Uint16Array,
+  i32: Int32Array,
+  u32: Uint32Array,
+  i64: BigInt64Array,
+  u64: BigUint64Array,
+}
+
+/** Whether `Atomics`, which use the platform's byte order, see little-endian integers */
+const PLATFORM_LITTLE_ENDIAN =
+  new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+/**
+ * Size in bytes of an atomic integer type, which is also the alignment it requires
+ */
+export function atomicTypeByteLength(type: AtomicType): number {
+  if (!Object.hasOwn(SPECIES, type)) {
+    throw new TypeError(`'${type}' is not an atomic integer type`)
+  }
+  return SPECIES[type].BYTES_PER_ELEMENT
+}
+
+/**
+ * Result of waiting on an atomic integer: woken by `notify`, the value already differed, or the timeout passed
+ */
+export type AtomicWaitResult = "ok" | "not-equal" | "timed-out"
+
+type WaitableArray = Int32Array | BigInt64Array
+
+/** `Atomics`, whose overloads cannot be selected for a union of array types */
+const atomics = Atomics as unknown as
+  & {
+    load(a: IntegerTypedArray, i: number): number | bigint
+  }
+  & {
+    [K in "store" | "add" | "sub" | "and" | "or" | "xor" | "exchange"]: (
+      a: IntegerTypedArray,
+      i: number,
+      v: number | bigint,
+    ) => number | bigint
+  }
+  & {
+    compareExchange(
+      a: IntegerTypedArray,
+      i: number,
+      expected: number | bigint,
+      replacement: number | bigint,
+    ): number | bigint
+    wait(
+      a: WaitableArray,
+      i: number,
+      v: number | bigint,
+      timeout?: number,
+    ): AtomicWaitResult
+    waitAsync(
+      a: WaitableArray,
+      i: number,
+      v: number | bigint,
+      timeout?: number,
+    ): { value: AtomicWaitResult | Promise<AtomicWaitResult> }
+    notify(a: WaitableArray, i: number, count?: number): number
+  }
+
+/**
+ * Live view of an integer, read and written with `Atomics`.
+ * The integer must be aligned to its size and in the platform's byte order.
+ * `wait` and `notify` are supported for 32-bit and 64-bit integers, and `wait` requires a `SharedArrayBuffer`.
+ * Methods which modify the value return the previous value, as `Atomics` does
+ */
+export class Atomic<T extends number | bigint> extends Struct {
+  #array: IntegerTypedArray
+  #type: AtomicType
+  override get [Symbol.toStringTag](): string {
+    return Atomic.name
+  }
+
+  /**
+   * Create a new view
+   * @param arg memory of the integer, as for `Struct`.
+   * @param options integer type
+   */
+  constructor(
+    arg: ConstructorParameters<typeof Struct>[0],
+    options: {
+      /** type of the integer, e.g. `"i32"` */
+      readonly type: AtomicType
+    },
+  ) {
+    super(arg)
+    const { type } = options
+    const byteLength = atomicTypeByteLength(type)
+    const dv = structDataView(this)
+    if (dv.byteOffset % byteLength !== 0) {
+      throw new RangeError(
+        `${type} at byte ${dv.byteOffset} is not aligned for atomic access`,
+      )
+    }
+    if (structLittleEndian(this) !== PLATFORM_LITTLE_ENDIAN) {
+      throw new TypeError("atomic fields must be in the platform's byte order")
+    }
+    this.#type = type
+    this.#array = new SPECIES[type](dv.buffer, dv.byteOffset, 1)
+  }
+
+  /** Array to wait on, which must be signed */
+  #waitArray(): WaitableArray {
+    const array = this.#array
+    switch (this.#type) {
+      case "i32":
+      case "u32":
+        return new Int32Array(array.buffer, array.byteOffset, 1)
+      case "i64":
+      case "u64":
+        return new BigInt64Array(array.buffer, array.byteOffset, 1)
+      default:
+        throw new TypeError(`cannot wait on ${this.#type}`)
+    }
+  }
+
+  /** Convert a value to the signed type of the array waited on */
+  #signed(value: T): number | bigint {
+    return typeof value === "bigint" ? BigInt.asIntN(64, value) : value | 0
+  }
+
+  /** Read the value */
+  load(): T {
+    return atomics.load(this.#array, 0) as T
+  }
+
+  /**
+   * Write the value
+   * @returns the value written
+   */
+  store(value: T): T {
+    return atomics.store(this.#array, 0, value) as T
+  }
+
+  /** Add to the value, returning the previous value */
+  add(value: T): T {
+    return atomics.add(this.#array, 0, value) as T
+  }
+
+  /** Subtract from the value, returning the previous value */
+  sub(value: T): T {
+    return atomics.sub(this.#array, 0, value) as T
+  }
+
+  /** Bitwise AND the value, returning the previous value */
+  and(value: T): T {
+    return atomics.and(this.#array, 0, value) as T
+  }
+
+  /** Bitwise OR the value, returning the previous value */
+  or(value: T): T {
+    return atomics.or(this.#array, 0, value) as T
+  }
+
+  /** Bitwise XOR the value, returning the previous value */
+  xor(value: T): T {
+    return atomics.xor(this.#array, 0, value) as T
+  }
+
+  /** Replace the value, returning the previous value */
+  exchange(value: T): T {
+    return atomics.exchange(this.#array, 0, value) as T
+  }
+
+  /**
+   * Replace the value if it equals `expected`
+   * @returns the previous value, which equals `expected` if the replacement happened
+   */
+  compareExchange(expected: T, replacement: T): T {
+    return atomics.compareExchange(
+      this.#array,
+      0,
+      expected,
+      replacement,
+    ) as T
+  }
+
+  /**
+   * Block until notified, if the value equals `value`, like `Atomics.wait`
+   * @param value expected value
+   * @param timeout maximum time to wait in milliseconds. Defaults to forever
+   */
+  wait(value: T, timeout?: number): AtomicWaitResult {
+    return atomics.wait(this.#waitArray(), 0, this.#signed(value), timeout)
+  }
+
+  /**
+   * Wait without blocking until notified, if the value equals `value`, like `Atomics.waitAsync`
+   * @param value expected value
+   * @param timeout maximum time to wait in milliseconds. Defaults to forever
+   */
+  waitAsync(value: T, timeout?: number): Promise<AtomicWaitResult> {
+    const result = atomics.waitAsync(
+      this.#waitArray(),
+      0,
+      this.#signed(value),
+      timeout,
+    )
+    return Promise.resolve(result.value)
+  }
+
+  /**
+   * Wake agents waiting on the value
+   * @param count maximum number of agents to wake. Defaults to all
+   * @returns the number of agents woken
+   */
+  notify(count?: number): number {
+    return atomics.notify(this.#waitArray(), 0, count)
+  }
+
+  /** The current value, as JSON: a number, or a decimal string for 64-bit integers */
+  override [jsonSymbol](): number | string {
+    const value = this.load()
+    return typeof value === "bigint" ? String(value) : value
+  }
+
+  /** The current value, as JSON */
+  toJSON(): number | string {
+    return this[jsonSymbol]()
+  }
+
+  /** The current value */
+  override valueOf(): T {
+    return this.load()
+  }
+}
@@ -0,0 +1,65 @@
+import { Atomic } from "./atomic.ts"
+import { defineStruct } from "./core.ts"
+import { atomic, i32 } from "./fields.ts"
+import { toObject } from "./convert.ts"
+
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert"
+
+class Shared extends defineStruct({
+  flag: atomic(0, "i32"),
+  small: atomic(4, "u16"),
+  count: atomic(8, "u64"),
+}, { toJSON: true }) {}
+
+Deno.test("atomic", () => {
+  const s = new Shared({ buffer: new SharedArrayBuffer(16) })
+  const flag = s.flag
+  assertInstanceOf(flag, Atomic)
+  assertEquals(flag.load(), 0)
+  assertEquals(flag.add(5), 0)
+  assertEquals(flag.sub(2), 5)
+  assertEquals(flag.compareExchange(3, 10), 3)
+  assertEquals(flag.compareExchange(3, 20), 10)
+  assertEquals(flag.exchange(-1), 10)
+  assertEquals(flag.and(0xff), -1)
+  assertEquals(flag.load(), 0xff)
+
+  s.small.store(0xffff)
+  assertEquals(s.small.add(1), 0xffff)
+  assertEquals(s.small.load(), 0)
+
+  Object.assign(s, { count: 2n ** 64n - 1n })
+  assertEquals(s.count.add(2n), 2n ** 64n - 1n)
+  assertEquals(s.count.load(), 1n)
+
+  assertEquals(toObject(s), { flag: 0xff, small: 0, count: "1" })
+  assertEquals(JSON.stringify(s), '{"flag":255,"small":0,"count":"1"}')
+})
+
+Deno.test("atomic wait and notify", async () => {
+  const s = new Shared({ buffer: new SharedArrayBuffer(16) })
+  assertEquals(s.flag.wait(1), "not-equal")
+  assertEquals(s.flag.wait(0, 1), "timed-out")
+  assertEquals(s.count.wait(0n, 1), "timed-out")
+
+  const woken = s.flag.waitAsync(0)
+  s.flag.store(1)
+  assertEquals(s.flag.notify(), 1)
+  assertEquals(await woken, "ok")
+
+  assertThrows(() => s.small.notify(), TypeError)
+})
+
+Deno.test("atomic alignment and byte order", () => {
+  assertThrows(() => atomic(2, "i32"), RangeError)
+  assertThrows(() => atomic(0, "f32" as "i32"), TypeError)
+
+  // the struct itself is misaligned
+  const s = new Shared({ buffer: new SharedArrayBuffer(20), byteOffset: 2 })
+  assertThrows(() => s.flag, RangeError)
+
+  const BigEndian = defineStruct({ x: atomic(0, "i32"), y: i32(4) }, {
+    littleEndian: false,
+  })
+  assertThrows(() => new BigEndian().x, TypeError)
+})
@@ -1,7 +1,15 @@
-import { defineStruct } from "./core.ts"
 import {
+  defineArray,
+  defineStruct,
+  setStructLittleEndian,
+  structLittleEndian,
+} from "./core.ts"
+import {
+  bigintbe,
+  biguintbe,
   f16,
   f16be,
+  f32,
   f32be,
   f64be,
   i16,
@@ -10,15 +18,21 @@ import {
   i32be,
   i64,
   i64be,
+  intbe,
+  intle,
+  substruct,
   u16,
   u16be,
   u32,
   u32be,
   u64,
   u64be,
+  ubits,
+  uintbe,
+  uintle,
 } from "./fields.ts"
 
-import { assertEquals } from "@std/assert"
+import { assertEquals, assertThrows } from "@std/assert"
 
 Deno.test("integers", () => {
   const buf = new Uint8Array(16)
@@ -94,3 +108,91 @@ Deno.test({
     assertEquals(vle.value, 1.5e3)
   },
 })
+
+Deno.test("struct byte order", () => {
+  class Point extends defineStruct({ x: u16(0), y: u16(2) }) {}
+  class LEOnly extends defineStruct({ v: u16(0) }, { littleEndian: true }) {}
+  class Packet extends defineStruct({
+    length: u32(0),
+    tag: ubits(4, { bitOffset: 0, bitLength: 12, byteLength: 2 }),
+    where: substruct(Point, 6),
+    fixed: substruct(LEOnly, 10),
+  }, { littleEndian: false }) {}
+  assertEquals(Packet.littleEndian, false)
+  assertEquals(Point.littleEndian, undefined)
+
+  const bytes = new Uint8Array(12)
+  const p = new Packet(bytes)
+  assertEquals(structLittleEndian(p), false)
+  p.length = 0x01020304
+  p.tag = 0xabc
+  p.where.x = 0x0506
+  p.fixed.v = 0x0708
+  assertEquals(
+    [...bytes],
+    [1, 2, 3, 4, 0x0a, 0xbc, 5, 6, 0, 0, 8, 7],
+  )
+
+  // byte order can be chosen per instance
+  const le = new Packet({ buffer: bytes.buffer, littleEndian: true })
+  assertEquals(le.length, 0x04030201)
+  assertEquals(le.where.x, 0x0605)
+
+  // or changed after construction
+  setStructLittleEndian(le, false)
+  assertEquals(le.length, 0x01020304)
+
+  // array items inherit the byte order of the array
+  const Points = defineArray({ struct: Point, length: 2, littleEndian: false })
+  const [first] = new Points(bytes)
+  assertEquals(first.x, 0x0102)
+
+  const Floats = defineStruct({ f: f32(0) }, { littleEndian: false })
+  const floatBytes = new Uint8Array(4)
+  new Floats(floatBytes).f = 1
+  assertEquals([...floatBytes], [0x3f, 0x80, 0, 0])
+})
+
+Deno.test("arbitrary width", () => {
+  const bytes = new Uint8Array(8)
+  class S extends defineStruct({
+    mac: biguintbe(1, { byteLength: 6 }),
+    smac: bigintbe(1, { byteLength: 6 }),
+    u24be: uintbe(1, { byteLength: 3 }),
+    u24le: uintle(1, { byteLength: 3 }),
+    i24be: intbe(1, { byteLength: 3 }),
+    i24le: intle(1, { byteLength: 3 }),
+    u48: uintbe(1, { byteLength: 6 }),
+    i48: intle(1, { byteLength: 6 }),
+  }) {}
+  const s = new S(bytes)
+  s.mac = 0x0123456789abn
+  assertEquals([...bytes], [0, 0x01, 0x23, 0x45, 0x67, 0x89, 0xab, 0])
+  assertEquals(s.mac, 0x0123456789abn)
+  assertEquals(s.smac, 0x0123456789abn)
+  assertEquals(s.u48, 0x0123456789ab)
+  assertEquals(s.u24be, 0x012345)
+  assertEquals(s.u24le, 0x452301)
+  assertEquals(s.i24le, 0x452301)
+
+  s.smac = -2n
+  assertEquals(s.mac, 0xfffffffffffen)
+  assertEquals(s.smac, -2n)
+  assertEquals(s.i48, -0x010000000001)
+  assertEquals(s.u48, 0xfffffffffffe)
+
+  s.i24be = -2
+  assertEquals([bytes[1], bytes[2], bytes[3]], [0xff, 0xff, 0xfe])
+  assertEquals(s.i24be, -2)
+  assertEquals(s.u24be, 0xfffffe)
+  s.u24le = 0x123456
+  assertEquals([bytes[1], bytes[2], bytes[3]], [0x56, 0x34, 0x12])
+  s.i48 = -1
+  assertEquals(s.u48, 0xffffffffffff)
+  // values wrap like other integer fields
+  s.u24be = 0x1000001
+  assertEquals(s.u24be, 1)
+
+  assertThrows(() => uintbe(0, { byteLength: 7 }), TypeError)
+  assertThrows(() => biguintbe(0, { byteLength: 0 }), TypeError)
+})
@@ -0,0 +1,477 @@
+/**
+ * Specialized functions which convert whole structs to and from plain objects, without creating a view for each struct
+ * @module
+ */
+
+import type { NumberType } from "./arrays.ts"
+import {
+  fromObject,
+  type PartialPlainObject,
+  type PlainObject,
+  toObject,
+} from "./convert.ts"
+import {
+  dataViewSymbol,
+  littleEndianSymbol,
+  structDataView,
+  structLittleEndian,
+} from "./core.ts"
+import type {
+  AnyStruct,
+  FieldAccess,
+  FieldLayout,
+  FieldType,
+  PrimitiveAccess,
+  StructConstructor,
+} from "./types.ts"
+
+/**
+ * Memory to read structs from or write them into: a buffer, a typed array or `DataView`, or a struct whose bytes are used.
+ * Structs are in the byte order declared by their class, else in that of the source struct, else little-endian
+ */
+export type StructSource = ArrayBufferLike | ArrayBufferView | AnyStruct
+
+/**
+ * Where consecutive structs are in memory
+ */
+export type CompiledArrayOptions = {
+  /** offset in bytes of the first struct. Defaults to 0 */
+  readonly byteOffset?: number
+  /** number of bytes between the start of consecutive structs. Defaults to the stride of an array of structs, or else the size of the struct */
+  readonly byteStride?: number
+}
+
+/**
+ * Functions converting a struct class's layout to and from plain objects, made by `compileStruct`
+ */
+export type CompiledStruct<T> = {
+  /** size in bytes of the struct */
+  readonly byteLength: number
+  /**
+   * Read a struct into a plain object, like `toObject(struct, { bigint: "bigint" })`
+   * @param source memory holding the struct
+   * @param byteOffset offset in bytes of the struct within `source`. Defaults to 0
+   */
+  decode(source: StructSource, byteOffset?: number): PlainObject<T, bigint>
+  /**
+   * Read consecutive structs into plain objects
+   * @param source memory holding the structs. If it is an array of structs, like those from `defineArray`, each of its items is read
+   * @param options where the structs are, and how many to read. Defaults to as many as fit
+   */
+  decodeAll(
+    source: StructSource,
+    options?: CompiledArrayOptions & {
+      /** number of structs to read */
+      readonly length?: number
+    },
+  ): PlainObject<T, bigint>[]
+  /**
+   * Write a plain object into a struct, like `fromObject`.
+   * Fields missing from the object are left unchanged, and properties which are not fields are ignored
+   * @param object values of the fields to write
+   * @param target memory to write the struct into. Defaults to new zeroed memory
+   * @param byteOffset offset in bytes of the struct within `target`. Defaults to 0
+   * @returns the bytes of the struct
+   */
+  encode(
+    object: PartialPlainObject<T>,
+    target?: StructSource,
+    byteOffset?: number,
+  ): Uint8Array
+  /**
+   * Write plain objects into consecutive structs
+   * @param objects values of the fields of each struct
+   * @param target memory to write the structs into. Defaults to new zeroed memory
+   * @param options where the structs are
+   * @returns the bytes of the structs
+   */
+  encodeAll(
+    objects: readonly PartialPlainObject<T>[],
+    target?: StructSource,
+    options?: CompiledArrayOptions,
+  ): Uint8Array
+}
+
+/** A struct class with static layout information, as made by `defineStruct` or `defineArray` */
+type LaidOutStruct = StructConstructor<object> & {
+  readonly fields?: { readonly [key: string]: FieldLayout | undefined }
+  readonly fieldTypes?: { readonly [key: string]: FieldType | undefined }
+  readonly primitiveFields?: {
+    readonly [key: string]: PrimitiveAccess | undefined
+  }
+  readonly fieldAccess?: {
+    readonly [key: string]: FieldAccess<unknown> | undefined
+  }
+  readonly members?: unknown
+  readonly struct?: StructConstructor<object>
+  readonly byteStride?: number
+}
+
+type Decoder = (dv: DataView, base: number, le: boolean) => unknown
+type Encoder = (value: unknown, dv: DataView, base: number, le: boolean) => void
+type Coder = { readonly decode: Decoder; readonly encode: Encoder }
+
+/** Name of the `DataView` methods for each number type, after `get` or `set` */
+const DATA_VIEW_METHODS: Record<NumberType, string> = {
+  u8: "Uint8",
+  i8: "Int8",
+  u16: "Uint16",
+  i16: "Int16",
+  u32: "Uint32",
+  i32: "Int32",
+  u64: "BigUint64",
+  i64: "BigInt64",
+  f16: "Float16",
+  f32: "Float32",
+  f64: "Float64",
+}
+
+const coders = new WeakMap<object, Coder>()
+
+/**
+ * Stand-in for a struct, for reading and writing fields through the accessors of its class.
+ * The accessors only need its `DataView` and byte order, so the constructor is not run
+ */
+function cursor(
+  ctor: StructConstructor<object>,
+  dv: DataView,
+  base: number,
+  le: boolean,
+): object {
+  const view: { [dataViewSymbol]: DataView; [littleEndianSymbol]: boolean } =
+    Object.create(ctor.prototype)
+  view[dataViewSymbol] = new DataView(
+    dv.buffer,
+    dv.byteOffset + base,
+    ctor.byteLength,
+  )
+  view[littleEndianSymbol] = le
+  return view
+}
+
+/** Read a field through its accessor */
+function readField(struct: object, key: string): unknown {
+  return toObject(Reflect.get(struct, key), { bigint: "bigint" })
+}
+
+/**
+ * Make a function writing a field through its accessor, as `fromObject` does.
+ * Whether the field holds a bigint is found on the first write, rather than by reading the field every time
+ */
+function fieldWriter(key: string): (struct: object, value: unknown) => void {
+  let isBigInt: boolean | undefined
+  return (struct, value) => {
+    if (typeof value === "object" && value !== null) {
+      fromObject(struct, { [key]: value })
+      return
+    }
+    isBigInt ??= typeof Reflect.get(struct, key) === "bigint"
+    const converted = isBigInt && typeof value !== "bigint"
+      ? BigInt(value as number | string)
+      : value
+    if (!Reflect.set(struct, key, converted)) {
+      throw new TypeError(`field '${key}' is not writable`)
+    }
+  }
+}
+
+/** Coder which reads and writes through the accessors of the class, for structs which cannot be compiled field by field */
+function viewCoder(ctor: StructConstructor<object>): Coder {
+  return {
+    decode: (dv, base, le) =>
+      toObject(cursor(ctor, dv, base, le), { bigint: "bigint" }),
+    encode: (value, dv, base, le) =>
+      fromObject(cursor(ctor, dv, base, le), value as object),
+  }
+}
+
+/** Coder for an array class of fixed length, as made by `defineArray` */
+function arrayCoder(
+  item: StructConstructor<object>,
+  byteStride: number,
+  length: number,
+): Coder {
+  const { decode, encode } = coderFor(item)
+  const itemLittleEndian = item.littleEndian
+  return {
+    decode(dv, base, le) {
+      const itemLe = itemLittleEndian ?? le
+      const result = new Array(length)
+      for (let i = 0; i < length; ++i) {
+        result[i] = decode(dv, base + i * byteStride, itemLe)
+      }
+      return result
+    },
+    encode(value, dv, base, le) {
+      const items = value as readonly unknown[]
+      if (items.length > length) {
+        throw new RangeError(
+          `index ${length} is out of bounds for length ${length}`,
+        )
+      }
+      const itemLe = itemLittleEndian ?? le
+      for (let i = 0; i < items.length; ++i) {
+        encode(items[i], dv, base + i * byteStride, itemLe)
+      }
+    },
+  }
+}
+
+/**
+ * The prototype which the static layout of a struct class describes.
+ * Accessors found before it on the prototype chain were overridden by a subclass
+ */
+function declaredPrototype(ctor: LaidOutStruct): object | undefined {
+  for (
+    let c: object | null = ctor;
+    c !== null;
+    c = Object.getPrototypeOf(c)
+  ) {
+    if (Object.hasOwn(c, "primitiveFields")) {
+      return Reflect.get(Object.getPrototypeOf(c), "prototype")
+    }
+  }
+  return undefined
+}
+
+/** The object on the prototype chain which declares a property */
+function owner(o: object, key: string): object | undefined {
+  for (let p: object | null = o; p !== null; p = Object.getPrototypeOf(p)) {
+    if (Object.hasOwn(p, key)) {
+      return p
+    }
+  }
+  return undefined
+}
+
+/**
+ * Generate the coder of a struct class: an object literal reading each field straight from the `DataView` where possible, and statements writing each field present in the object
+ */
+function buildCoder(ctor: LaidOutStruct): Coder {
+  const { struct: item, byteStride, byteLength } = ctor
+  if (
+    item && typeof byteStride === "number" && typeof byteLength === "number"
+  ) {
+    return arrayCoder(item, byteStride, Math.floor(byteLength / byteStride))
+  }
+  if (Array.isArray(ctor.members)) {
+    // only the active member of a union is converted
+    return viewCoder(ctor)
+  }
+  const {
+    fields = {},
+    fieldTypes = {},
+    primitiveFields = {},
+    fieldAccess = {},
+  } = ctor
+  const declared = declaredPrototype(ctor)
+  const refs: unknown[] = []
+  function ref(value: unknown) {
+    refs.push(value)
+    return `r[${refs.length - 1}]`
+  }
+  const view = ref(cursor)
+  const self = ref(ctor)
+  /** Expressions reading each field, and statements writing `v` into it */
+  const entries: { name: string; read: string; write: string }[] = []
+  let usesView = false
+  for (const key in ctor.prototype) {
+    const name = JSON.stringify(key)
+    const layout = fields[key]
+    const primitive = primitiveFields[key]
+    const type = fieldTypes[key]
+    const access = fieldAccess[key]
+    const isDeclared = owner(ctor.prototype, key) === declared
+    if (isDeclared && layout && layout.bitOffset === undefined && primitive) {
+      const at = `b + ${layout.byteOffset}`
+      const le = String(primitive.littleEndian ?? "le")
+      if (primitive.type === "bool") {
+        entries.push({
+          name,
+          read: `dv.getUint8(${at}) !== 0`,
+          write: `dv.setUint8(${at}, v ? 1 : 0)`,
+        })
+      } else {
+        const method = DATA_VIEW_METHODS[primitive.type]
+        const value = primitive.type === "u64" || primitive.type === "i64"
+          ? "BigInt(v)"
+          : "v"
+        entries.push({
+          name,
+          read: `dv.get${method}(${at}, ${le})`,
+          write: `dv.set${method}(${at}, ${value}, ${le})`,
+        })
+      }
+    } else if (isDeclared && access) {
+      entries.push({
+        name,
+        read: `${ref(access.read)}(dv, b, le)`,
+        write: `${ref(access.write)}(dv, b, v, le)`,
+      })
+    } else if (
+      isDeclared && layout && typeof type === "object" && "struct" in type
+    ) {
+      const inner = coderFor(type.struct)
+      const at = `b + ${layout.byteOffset}`
+      const le = String(type.struct.littleEndian ?? "le")
+      entries.push({
+        name,
+        read: `${ref(inner.decode)}(dv, ${at}, ${le})`,
+        write: `${ref(inner.encode)}(v, dv, ${at}, ${le})`,
+      })
+    } else {
+      usesView = true
+      entries.push({
+        name,
+        read: `${ref(readField)}(view(), ${name})`,
+        write: `${ref(fieldWriter(key))}(view(), v)`,
+      })
+    }
+  }
+  const prologue = usesView
+    ? `let c\nconst view = () => c ??= ${view}(${self}, dv, b, le)\n`
+    : ""
+  const reads = entries.map(({ name, read }) => `[${name}]: ${read},`)
+  const writes = entries.map(({ name, write }) =>
+    `if ((v = o[${name}]) !== undefined) ${write}`
+  )
+  const source = `
+return {
+  decode(dv, b, le) {
+    ${prologue}return {
+      ${reads.join("\n      ")}
+    }
+  },
+  encode(o, dv, b, le) {
+    ${prologue}let v
+    ${writes.join("\n    ")}
+  },
+}`
+  return new Function("r", source)(refs) as Coder
+}
+
+function coderFor(ctor: StructConstructor<object>): Coder {
+  let coder = coders.get(ctor)
+  if (!coder) {
+    coder = buildCoder(ctor)
+    coders.set(ctor, coder)
+  }
+  return coder
+}
+
+/** `DataView` of the whole of `source`, and its byte order if it is a struct */
+function sourceView(source: StructSource): [DataView, boolean | undefined] {
+  if (dataViewSymbol in source) {
+    return [structDataView(source), structLittleEndian(source)]
+  }
+  if (ArrayBuffer.isView(source)) {
+    return [
+      new DataView(source.buffer, source.byteOffset, source.byteLength),
+      undefined,
+    ]
+  }
+  return [new DataView(source), undefined]
+}
+
+function checkBounds(dv: DataView, byteOffset: number, byteLength: number) {
+  if (byteOffset < 0 || byteOffset + byteLength > dv.byteLength) {
+    throw new RangeError(
+      `${byteLength} bytes at byte ${byteOffset} do not fit in ${dv.byteLength} bytes`,
+    )
+  }
+}
+
+/**
+ * Generate functions which read a struct class's whole layout into a plain object and write it back, in one step.
+ * Numbers, booleans, strings, and embedded structs and arrays of structs are read straight from memory, so no views are created, and other fields are read through the accessors of the class.
+ * This is much faster than `toObject` and `fromObject` for decoding many structs, such as the items of an array.
+ *
+ * @example
+ * ```ts
+ * const { decodeAll } = compileStruct(Dish)
+ * const dishes = decodeAll(menu) // [{ price: 4, name: "garden salad" }, ...]
+ * ```
+ * @param ctor struct class of known size. The functions made for it are cached
+ * @returns functions converting the struct to and from plain objects
+ */
+export function compileStruct<T extends object>(
+  ctor: StructConstructor<T>,
+): CompiledStruct<T> {
+  if (typeof ctor.byteLength !== "number") {
+    throw new TypeError("cannot compile a struct of unknown size")
+  }
+  const byteLength: number = ctor.byteLength
+  const { decode, encode } = coderFor(ctor)
+  const ownLittleEndian = ctor.littleEndian
+  /** Byte order of the structs: that declared by the class, else that of the source struct, else little-endian */
+  function byteOrder(sourceLittleEndian: boolean | undefined) {
+    return ownLittleEndian ?? sourceLittleEndian ?? true
+  }
+  function targetView(target: StructSource | undefined, size: number) {
+    return target === undefined
+      ? sourceView(new Uint8Array(size))
+      : sourceView(target)
+  }
+  /** Location of consecutive structs in `source` */
+  function arrayLayout(
+    source: StructSource | undefined,
+    options: CompiledArrayOptions,
+  ) {
+    const arrayStride: unknown =
+      source !== undefined && dataViewSymbol in source
+        ? Reflect.get(source.constructor, "byteStride")
+        : undefined
+    const byteStride = options.byteStride ??
+      (typeof arrayStride === "number" ? arrayStride : byteLength)
+    return { byteOffset: options.byteOffset ?? 0, byteStride }
+  }
+  return {
+    byteLength,
+    decode(source, byteOffset = 0) {
+      const [dv, le] = sourceView(source)
+      checkBounds(dv, byteOffset, byteLength)
+      return decode(dv, byteOffset, byteOrder(le)) as PlainObject<T, bigint>
+    },
+    decodeAll(source, options = {}) {
+      const [dv, arrayLe] = sourceView(source)
+      const le = byteOrder(arrayLe)
+      const { byteOffset, byteStride } = arrayLayout(source, options)
+      const sourceLength: unknown = dataViewSymbol in source
+        ? Reflect.get(source, "length")
+        : undefined
+      const length = options.length ??
+        (typeof sourceLength === "number" ? sourceLength : Math.max(
+          0,
+          Math.floor((dv.byteLength - byteOffset - byteLength) / byteStride) +
+            1,
+        ))
+      if (length > 0) {
+        checkBounds(dv, byteOffset, (length - 1) * byteStride + byteLength)
+      }
+      const result = new Array(length)
+      for (let i = 0; i < length; ++i) {
+        result[i] = decode(dv, byteOffset + i * byteStride, le)
+      }
+      return result
+    },
+    encode(object, target, byteOffset = 0) {
+      const [dv, le] = targetView(target, byteOffset + byteLength)
+      checkBounds(dv, byteOffset, byteLength)
+      encode(object, dv, byteOffset, byteOrder(le))
+      return new Uint8Array(dv.buffer, dv.byteOffset + byteOffset, byteLength)
+    },
+    encodeAll(objects, target, options = {}) {
+      const { byteOffset, byteStride } = arrayLayout(target, options)
+      const size = objects.length > 0
+        ? (objects.length - 1) * byteStride + byteLength
+        : 0
+      const [dv, arrayLe] = targetView(target, byteOffset + size)
+      const le = byteOrder(arrayLe)
+      checkBounds(dv, byteOffset, size)
+      for (let i = 0; i < objects.length; ++i) {
+        encode(objects[i], dv, byteOffset + i * byteStride, le)
+      }
+      return new Uint8Array(dv.buffer, dv.byteOffset + byteOffset, size)
+    },
+  }
+}
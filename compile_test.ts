@@ -0,0 +1,219 @@
+import { compileStruct } from "./compile.ts"
+import { defineArray, defineStruct, structBytes } from "./core.ts"
+import {
+  bool,
+  f32,
+  f64,
+  i16,
+  string,
+  substruct,
+  u16,
+  u16be,
+  u32,
+  u64,
+  u8,
+  ubits,
+} from "./fields.ts"
+import { fromObject, toObject } from "./convert.ts"
+import { defineUnion } from "./union.ts"
+
+import { assertEquals, assertThrows } from "@std/assert"
+
+class Vec2 extends defineStruct({
+  x: f32(0),
+  y: f32(4),
+}) {}
+
+class Sample extends defineStruct({
+  id: u32(0),
+  flags: u16(4),
+  big: u16be(6),
+  offset: i16(8),
+  ok: bool(10),
+  mode: ubits(11, { bitOffset: 4, bitLength: 4 }),
+  position: substruct(Vec2, 12),
+  total: u64(24),
+  name: string(32, 8),
+}) {}
+
+const sample = {
+  id: 0xdeadbeef,
+  flags: 0x1234,
+  big: 0x0102,
+  offset: -5,
+  ok: true,
+  mode: 9,
+  position: { x: 1.5, y: -2 },
+  total: 1n << 60n,
+  name: "probe",
+}
+
+Deno.test("compileStruct decode", () => {
+  const s = new Sample()
+  fromObject(s, sample)
+  const { decode, byteLength } = compileStruct(Sample)
+  assertEquals(byteLength, 40)
+  assertEquals(decode(s), toObject(s, { bigint: "bigint" }))
+  assertEquals(decode(s), sample)
+
+  // at an offset within a larger buffer
+  const bytes = new Uint8Array(48)
+  bytes.set(structBytes(s), 8)
+  assertEquals(decode(bytes, 8), sample)
+  assertEquals(decode(bytes.subarray(8)), sample)
+  assertThrows(() => decode(bytes, 9), RangeError)
+})
+
+Deno.test("compileStruct strings", () => {
+  class Labels extends defineStruct({
+    short: string(0, 6, { format: "length-prefixed", prefixLength: 2 }),
+    wide: string(6, 8, { encoding: "utf-16be", format: "null-terminated" }),
+    padded: string(14, 4, { format: "space-padded" }),
+  }, { littleEndian: false }) {}
+  const labels = { short: "hi", wide: "héé", padded: "ok" }
+  const { encode, decode } = compileStruct(Labels)
+  const bytes = encode(labels)
+  assertEquals([...bytes.subarray(0, 2)], [0, 2])
+  assertEquals(toObject(new Labels(bytes)), labels)
+  assertEquals(decode(bytes), labels)
+  assertEquals(encode({ short: "toolong" })[1], 4)
+})
+
+Deno.test("compileStruct encode", () => {
+  const { encode } = compileStruct(Sample)
+  const bytes = encode(sample)
+  assertEquals(bytes.length, 40)
+  const s = new Sample(bytes)
+  assertEquals(toObject(s, { bigint: "bigint" }), sample)
+  assertEquals(s.big, 0x0102)
+  assertEquals(bytes[6], 1)
+
+  // missing fields are left unchanged
+  encode({ position: { y: 3 }, total: 7 }, s)
+  assertEquals(s.position.x, 1.5)
+  assertEquals(s.position.y, 3)
+  assertEquals(s.total, 7n)
+  assertEquals(s.name, "probe")
+
+  const target = new ArrayBuffer(44)
+  const written = encode(sample, target, 4)
+  assertEquals(written.byteOffset, 4)
+  assertEquals(new Sample({ buffer: target, byteOffset: 4 }).id, sample.id)
+  assertThrows(() => encode(sample, target, 8), RangeError)
+})
+
+Deno.test("compileStruct arrays", () => {
+  class Dish extends defineStruct({
+    price: f32(0),
+    name: string(4, 12),
+  }) {}
+  class Menu extends defineArray({ struct: Dish, byteStride: 16 }) {}
+  const dishes = [
+    { price: 4, name: "garden salad" },
+    { price: 2.5, name: "soup du jour" },
+    { price: 2.25, name: "fries" },
+  ]
+
+  const { decodeAll, encodeAll } = compileStruct(Dish)
+  const bytes = encodeAll(dishes)
+  assertEquals(bytes.length, 48)
+  const menu = new Menu(bytes)
+  assertEquals(decodeAll(menu), dishes)
+  assertEquals(decodeAll(menu.subarray(1, 2)), dishes.slice(1, 2))
+  assertEquals(decodeAll(bytes, { byteOffset: 16 }), dishes.slice(1))
+  assertEquals(decodeAll(bytes, { length: 1 }), dishes.slice(0, 1))
+  assertThrows(() => decodeAll(bytes, { length: 4 }), RangeError)
+
+  // strided items
+  const padded = new Uint8Array(64)
+  encodeAll(dishes, padded, { byteOffset: 4, byteStride: 20 })
+  assertEquals(
+    new Dish({ buffer: padded.buffer, byteOffset: 24 }).name,
+    "soup du jour",
+  )
+  assertEquals(decodeAll(padded, { byteOffset: 4, byteStride: 20 }), dishes)
+
+  // array classes of fixed length, on their own or embedded
+  class Path extends defineStruct({
+    count: u8(0),
+    points: substruct(defineArray({ struct: Vec2, length: 2 }), 4),
+  }) {}
+  const path = { count: 2, points: [{ x: 1, y: 2 }, { x: 3, y: 4 }] }
+  const { encode, decode } = compileStruct(Path)
+  assertEquals(toObject(new Path(encode(path))), path)
+  assertEquals(decode(encode(path)), path)
+  assertThrows(
+    () => encode({ points: [{}, {}, {}] }),
+    RangeError,
+  )
+  const Pair = defineArray({ struct: Vec2, length: 2 })
+  assertEquals(compileStruct(Pair).decode(encode(path), 4), path.points)
+})
+
+Deno.test("compileStruct byte order", () => {
+  class Header extends defineStruct({
+    magic: u32(0),
+    version: u16(4),
+    size: substruct(Vec2, 8),
+  }, { littleEndian: false }) {}
+  const header = { magic: 0x89504e47, version: 2, size: { x: 1, y: 2 } }
+  const { encode, decode } = compileStruct(Header)
+  const bytes = encode(header)
+  assertEquals(bytes.subarray(0, 4), Uint8Array.of(0x89, 0x50, 0x4e, 0x47))
+  assertEquals(toObject(new Header(bytes)), header)
+  assertEquals(decode(bytes), header)
+
+  // the byte order declared by the class comes first, as for views
+  const little = new Vec2({ byteLength: 12 })
+  const bytes2 = structBytes(little)
+  bytes2.set([1, 2])
+  const { decode: decodeBig, decodeAll, encodeAll } = compileStruct(
+    defineStruct({ n: u16(0) }, { littleEndian: false }),
+  )
+  assertEquals(decodeBig(little), { n: 0x0102 })
+  assertEquals(decodeAll(little, { length: 1 }), [{ n: 0x0102 }])
+  encodeAll([{ n: 0x0304 }], little)
+  assertEquals([...bytes2.subarray(0, 2)], [3, 4])
+
+  // otherwise the struct's own byte order is used
+  const v = new Vec2({ byteLength: 8, littleEndian: false })
+  v.x = 3
+  assertEquals(compileStruct(Vec2).decode(v).x, 3)
+  assertEquals(compileStruct(Vec2).decodeAll(v), [{ x: 3, y: 0 }])
+  assertEquals(compileStruct(Vec2).decode(structBytes(v)).x === 3, false)
+  compileStruct(Vec2).encode({ y: 5 }, v)
+  assertEquals(v.y, 5)
+})
+
+Deno.test("compileStruct overridden accessors and unions", () => {
+  const value = f64(8)
+  class Scaled extends defineStruct({ raw: u8(0), value }) {
+    static {
+      // enumerable, so that plain objects include it
+      Object.defineProperty(this.prototype, "value", {
+        enumerable: true,
+        get() {
+          return value.get!.call(this) * 2
+        },
+        set(v: number) {
+          value.set!.call(this, v / 2)
+        },
+      })
+    }
+  }
+  const { encode, decode } = compileStruct(Scaled)
+  const s = new Scaled(encode({ raw: 1, value: 10 }))
+  assertEquals(s.value, 10)
+  assertEquals(new DataView(structBytes(s).buffer).getFloat64(8, true), 5)
+  assertEquals(decode(s), { raw: 1, value: 10 })
+
+  class Value extends defineUnion({
+    asInt: u32(0),
+    asFloat: f32(0),
+  }, {
+    active: () => "asFloat",
+  }) {}
+  const bytes = compileStruct(Value).encode({ asFloat: 1 })
+  assertEquals(new Value(bytes).asInt, 0x3f800000)
+  assertEquals(compileStruct(Value).decode(bytes), { asFloat: 1 })
+})
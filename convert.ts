@@ -0,0 +1,164 @@
+/**
+ * Conversion between structs and plain JavaScript objects
+ * @module
+ */
+
+import { Atomic } from "./atomic.ts"
+import { dataViewSymbol } from "./core.ts"
+import { writeInto } from "./write.ts"
+import type { UnionBrand } from "./union.ts"
+
+/**
+ * How `toObject` represents 64-bit and other bigint values:
+ * as decimal strings (the default, safe for JSON), as numbers (possibly losing precision), or left as bigints
+ */
+export type BigIntMode = "string" | "number" | "bigint"
+
+/**
+ * Options for `toObject`
+ */
+export type ToObjectOptions<Mode extends BigIntMode = BigIntMode> = {
+  /** how to represent bigints. Defaults to `"string"` */
+  readonly bigint?: Mode
+}
+
+/**
+ * Plain representation of a value, as produced by `toObject`.
+ * Structs become objects, arrays and other iterables become arrays, and bigints become `BigIntValue`.
+ * Every member of a union is optional, since only the active member is included
+ */
+export type PlainObject<T, BigIntValue = string> = T extends bigint
+  ? BigIntValue
+  : T extends string | number | boolean | null | undefined ? T
+  : T extends Iterable<infer Item> ? PlainObject<Item, BigIntValue>[]
+  : T extends UnionBrand ? Partial<PlainFields<T, BigIntValue>>
+  : T extends object ? PlainFields<T, BigIntValue>
+  : T
+
+type PlainFields<T, BigIntValue> = {
+  -readonly [
+    K in keyof T as K extends string
+      // deno-lint-ignore ban-types
+      ? T[K] extends Function ? never : K
+      : never
+  ]: PlainObject<T[K], BigIntValue>
+}
+
+/**
+ * Input accepted by `fromObject`: like `PlainObject`, but any field may be omitted and bigints may be given as numbers or strings
+ */
+export type PartialPlainObject<T> = T extends bigint ? bigint | number | string
+  : T extends string | number | boolean | null | undefined ? T
+  : T extends Iterable<infer Item> ? readonly PartialPlainObject<Item>[]
+  : T extends object ? {
+      [
+        K in keyof T as K extends string
+          // deno-lint-ignore ban-types
+          ? T[K] extends Function ? never : K
+          : never
+      ]?: PartialPlainObject<T[K]>
+    }
+  : T
+
+type BigIntValue<Mode extends BigIntMode> = Mode extends "bigint" ? bigint
+  : Mode extends "number" ? number
+  : string
+
+function isStruct(value: object): boolean {
+  return dataViewSymbol in value
+}
+
+/**
+ * Members of a union other than the one holding meaningful data, if the struct is a union which can tell
+ */
+function inactiveMembers(struct: object): string[] {
+  const ctor = struct.constructor
+  const members: unknown = Reflect.get(ctor, "members")
+  const activeMember: unknown = Reflect.get(ctor, "activeMember")
+  if (!Array.isArray(members) || typeof activeMember !== "function") {
+    return []
+  }
+  const active = activeMember.call(ctor, struct)
+  return active === undefined ? [] : members.filter((key) => key !== active)
+}
+
+function convert(value: unknown, mode: BigIntMode): unknown {
+  if (typeof value === "bigint") {
+    return mode === "bigint"
+      ? value
+      : mode === "number"
+      ? Number(value)
+      : String(value)
+  }
+  if (typeof value !== "object" || value === null) {
+    return value
+  }
+  if (value instanceof Atomic) {
+    return convert(value.load(), mode)
+  }
+  if (Symbol.iterator in value) {
+    return Array.from(value as Iterable<unknown>, (item) => convert(item, mode))
+  }
+  const skip = isStruct(value) ? inactiveMembers(value) : []
+  const result: Record<string, unknown> = {}
+  for (const key in value) {
+    const item: unknown = Reflect.get(value, key)
+    if (typeof item !== "function" && !skip.includes(key)) {
+      result[key] = convert(item, mode)
+    }
+  }
+  return result
+}
+
+/**
+ * Copy a struct into a plain object, recursing into embedded structs, arrays, and typed arrays.
+ * Only the active member of a union is included, if the union can tell which it is.
+ *
+ * @example
+ * ```ts
+ * JSON.stringify(toObject(header))
+ * ```
+ * @param struct struct, array of structs, or other value to convert
+ * @param options how to represent bigints
+ * @returns a snapshot of the struct with no live views
+ */
+export function toObject<T, Mode extends BigIntMode = "string">(
+  struct: T,
+  options: ToObjectOptions<Mode> = {},
+): PlainObject<T, BigIntValue<Mode>> {
+  return convert(struct, options.bigint ?? "string") as PlainObject<
+    T,
+    BigIntValue<Mode>
+  >
+}
+
+/**
+ * Write a plain object into a struct, the inverse of `toObject`.
+ * Fields missing from the object are left unchanged.
+ *
+ * @example
+ * ```ts
+ * const header = fromObject(Header, { magic: 0x1234, size: { width: 1, height: 2 } })
+ * ```
+ * @param target struct to write into, or a struct class of known size to create a new instance of
+ * @param object values of the fields to write. Embedded structs and arrays of structs are written recursively
+ * @returns the struct written to
+ */
+export function fromObject<T extends object>(
+  target: { new (): T },
+  object: PartialPlainObject<T>,
+): T
+export function fromObject<T extends object>(
+  target: T,
+  object: PartialPlainObject<T>,
+): T
+export function fromObject<T extends object>(
+  target: T | { new (): T },
+  object: PartialPlainObject<T>,
+): T {
+  const struct = typeof target === "function"
+    ? new (target as { new (): T })()
+    : target
+  writeInto(struct, object as object)
+  return struct
+}
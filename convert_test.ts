@@ -0,0 +1,103 @@
+import { assertEquals, assertThrows } from "@std/assert"
+import { defineArray, defineStruct, structBytes } from "./core.ts"
+import {
+  enumerated,
+  flags,
+  i16,
+  string,
+  substruct,
+  typedArray,
+  u64,
+  u8,
+} from "./fields.ts"
+import { fromObject, toObject } from "./convert.ts"
+import { defineUnion } from "./union.ts"
+
+class Point extends defineStruct({ x: i16(0), y: i16(2) }) {}
+class Shape extends defineStruct({
+  name: string(0, 8),
+  kind: enumerated(u8(8), { circle: 0, square: 1 }),
+  style: flags(u8(9), { filled: 1, dashed: 2 }),
+  id: u64(16),
+  origin: substruct(Point, 24),
+  corners: substruct(defineArray({ struct: Point, length: 2 }), 28),
+  weights: typedArray(36, { species: Uint8Array, length: 4 }),
+}) {}
+
+Deno.test("toObject", () => {
+  const shape = new Shape()
+  shape.name = "box"
+  shape.kind = "square"
+  shape.style.dashed = true
+  shape.id = 2n ** 60n
+  shape.origin.x = -1
+  shape.corners.element(1).y = 5
+  shape.weights.set([1, 2, 3, 4])
+
+  const expected = {
+    name: "box",
+    kind: "square" as const,
+    style: { filled: false, dashed: true },
+    id: "1152921504606846976",
+    origin: { x: -1, y: 0 },
+    corners: [{ x: 0, y: 0 }, { x: 0, y: 5 }],
+    weights: [1, 2, 3, 4],
+  }
+  const plain = toObject(shape)
+  assertEquals(plain, expected)
+  assertEquals(JSON.parse(JSON.stringify(plain)), expected)
+  // a snapshot, not a live view
+  shape.origin.x = 3
+  assertEquals(plain.origin.x, -1)
+
+  const id: bigint = toObject(shape, { bigint: "bigint" }).id
+  assertEquals(id, 2n ** 60n)
+  assertEquals(toObject(shape, { bigint: "number" }).id, 2 ** 60)
+})
+
+Deno.test("fromObject", () => {
+  const shape = fromObject(Shape, {
+    name: "circle",
+    kind: "circle",
+    style: { filled: true },
+    id: "42",
+    origin: { x: 1, y: -2 },
+    corners: [{ x: 3 }, { y: 4 }],
+    weights: [5, 6, 7, 8],
+  })
+  assertEquals(toObject(shape, { bigint: "bigint" }), {
+    name: "circle",
+    kind: "circle",
+    style: { filled: true, dashed: false },
+    id: 42n,
+    origin: { x: 1, y: -2 },
+    corners: [{ x: 3, y: 0 }, { x: 0, y: 4 }],
+    weights: [5, 6, 7, 8],
+  })
+
+  // round trip
+  const copy = fromObject(new Shape(), toObject(shape))
+  assertEquals(structBytes(copy), structBytes(shape))
+
+  fromObject(copy, { id: 7 })
+  assertEquals(copy.id, 7n)
+  assertThrows(() => {
+    // @ts-expect-error not a field
+    fromObject(copy, { bogus: 1 })
+  }, TypeError)
+  assertThrows(() => fromObject(copy, { origin: 1 as never }), TypeError)
+})
+
+Deno.test("toObject union", () => {
+  class Value extends defineUnion({
+    isByte: u8(0),
+    asByte: u8(1),
+    asShort: i16(2),
+  }, { active: (v) => v.isByte ? "asByte" : "asShort" }) {}
+  class All extends defineUnion({ a: u8(0), b: u8(0) }) {}
+  const value = fromObject(Value, { asShort: -3 })
+  assertEquals(toObject(value), { asShort: -3 })
+  value.isByte = 1
+  assertEquals(toObject(value), { asByte: 0 })
+  assertEquals(toObject(new All()), { a: 0, b: 0 })
+})
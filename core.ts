@@ -6,13 +6,23 @@
 import type {
   AnyStruct,
   Constructor,
+  DefinedArray,
+  DefinedStruct,
+  FieldAccess,
+  FieldLayout,
+  FieldType,
+  JsonSchema,
   MixinFromProps,
+  PrimitiveAccess,
   StructConstructor,
+  StructOptions,
   StructPropertyDescriptor,
   SubclassWithProperties,
 } from "./types.ts"
+import { writeInto } from "./write.ts"
 
 export const dataViewSymbol = Symbol.for("Struct.dataview")
+export const littleEndianSymbol = Symbol.for("Struct.littleendian")
 
 /**
  * Get the underlying DataView of a struct
@@ -26,6 +36,26 @@ export function structDataView(struct: AnyStruct): DataView {
   }
   return struct[dataViewSymbol]
 }
+/**
+ * Get the byte order of a struct, used by fields that do not specify their own
+ * @param struct
+ * @returns true if the struct is little-endian, false if it is big-endian
+ */
+export function structLittleEndian(struct: AnyStruct): boolean {
+  return struct[littleEndianSymbol] ?? true
+}
+/**
+ * Change the byte order of a struct, e.g. after reading a byte order mark
+ * @param struct
+ * @param littleEndian true for little-endian, false for big-endian
+ */
+export function setStructLittleEndian(
+  struct: AnyStruct,
+  littleEndian: boolean,
+): void {
+  structDataView(struct)
+  Reflect.set(struct, littleEndianSymbol, littleEndian)
+}
 /**
  * Helper method to create a view of a contiguous subregion of a Struct's memory
  * @param struct
@@ -46,6 +76,38 @@ export function structBytes(
   return new Uint8Array(dv.buffer, dv.byteOffset + start, end - start)
 }
 
+/** Views of structs which track the length of their resizable buffer */
+const lengthTrackingViews = new WeakSet<DataView>()
+
+/**
+ * Resize a struct which tracks the length of a resizable `ArrayBuffer`, by resizing the buffer.
+ * Such a struct is created from `{ buffer }` with no `byteLength`, or with `maxByteLength`.
+ *
+ * @remarks
+ * Anything else in the buffer after the struct is lost when it shrinks, and bytes added when it grows are zero.
+ *
+ * @param struct struct to resize
+ * @param byteLength new size in bytes of the struct
+ */
+export function resizeStruct(struct: AnyStruct, byteLength: number): void {
+  const dv = structDataView(struct)
+  if (!lengthTrackingViews.has(dv)) {
+    throw new TypeError(
+      "struct does not track the length of a resizable buffer",
+    )
+  }
+  const buffer = dv.buffer as ArrayBuffer
+  buffer.resize(dv.byteOffset + byteLength)
+}
+
+/**
+ * Whether a struct can be resized with `resizeStruct`
+ * @param struct
+ */
+export function isResizable(struct: AnyStruct): boolean {
+  return lengthTrackingViews.has(structDataView(struct))
+}
+
 /**
  * Define a descriptor based on a dataview of the struct
  * @param fieldGetter function which, given a dataview, returns
@@ -63,12 +125,106 @@ export function fromDataView<Fn extends (dv: DataView) => unknown>(
   } as ThisType<Struct>
 }
 
+/** Method of an `Indexed` view reading the item at an index, which is known to be in bounds */
+export const getItemSymbol: unique symbol = Symbol.for("Struct.getItem")
+/** Method of an `Indexed` view writing the item at an index, which is known to be in bounds */
+export const setItemSymbol: unique symbol = Symbol.for("Struct.setItem")
+/** Method of a struct giving its JSON form. Structs defined with the `toJSON` option call it from `toJSON` */
+export const jsonSymbol: unique symbol = Symbol.for("Struct.json")
+
+/**
+ * An object whose items can be read and written by index
+ */
+export type Indexed<T> = {
+  readonly length: number
+  [getItemSymbol](index: number): T
+  [setItemSymbol](index: number, value: T): void
+}
+
+function toIndex(key: PropertyKey): number | undefined {
+  if (typeof key !== "string") {
+    return undefined
+  }
+  const index = Number(key)
+  if (Number.isInteger(index) && index >= 0 && String(index) === key) {
+    return index
+  }
+  return undefined
+}
+
+/**
+ * Make items of a class's instances accessible with bracket notation, like `view[0]`,
+ * by inserting a Proxy into its prototype chain.
+ * Reading past the end gives `undefined`, like an Array; writing past the end throws.
+ * @param ctor class whose instances implement `Indexed`
+ */
+export function addIndexAccess(
+  ctor: { readonly prototype: object },
+): void {
+  const parent = Object.getPrototypeOf(ctor.prototype)
+  Object.setPrototypeOf(
+    ctor.prototype,
+    new Proxy(parent, {
+      get(target, key, receiver) {
+        const index = toIndex(key)
+        if (index === undefined) {
+          return Reflect.get(target, key, receiver)
+        }
+        const view = receiver as Indexed<unknown>
+        return index < view.length ? view[getItemSymbol](index) : undefined
+      },
+      set(target, key, value, receiver) {
+        const index = toIndex(key)
+        if (index === undefined) {
+          return Reflect.set(target, key, value, receiver)
+        }
+        const view = receiver as Indexed<unknown>
+        if (!(index < view.length)) {
+          throw new RangeError(
+            `index ${index} is out of bounds for length ${view.length}`,
+          )
+        }
+        view[setItemSymbol](index, value)
+        return true
+      },
+    }),
+  )
+}
+
+/**
+ * Convert a field value to its JSON form: bigints become decimal strings, and arrays of items become arrays
+ */
+function jsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return String(value)
+  }
+  if (typeof value !== "object" || value === null) {
+    return value
+  }
+  if (jsonSymbol in value) {
+    return (value as Struct)[jsonSymbol]()
+  }
+  if ("toJSON" in value) {
+    return value
+  }
+  if (Symbol.iterator in value) {
+    return Array.from(value as Iterable<unknown>, jsonValue)
+  }
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, jsonValue(v)]),
+    )
+  }
+  return value
+}
+
 /**
  * Base class for a structured binary object
  * Note there are no predeclared string-keyed properties - all property names are reserved for user-defined fields
  */
 export class Struct {
-  [dataViewSymbol]: DataView
+  [dataViewSymbol]: DataView;
+  [littleEndianSymbol]: boolean
   get [Symbol.toStringTag](): string {
     return Struct.name
   }
@@ -76,11 +232,33 @@ export class Struct {
     return o[dataViewSymbol]
   }
 
+  /**
+   * The JSON form of the struct, as described by the static `jsonSchema()` of its class.
+   * Fields become properties, bigints become decimal strings, and arrays of items become arrays
+   */
+  [jsonSymbol](): unknown {
+    if (Symbol.iterator in this) {
+      return Array.from(this as Iterable<unknown>, jsonValue)
+    }
+    const result: Record<string, unknown> = {}
+    for (const key in this) {
+      const value: unknown = this[key]
+      if (typeof value !== "function") {
+        result[key] = jsonValue(value)
+      }
+    }
+    return result
+  }
+
   /**
    * Create a new Struct
    * @param arg options for creating the struct.
    *  If options has a `.buffer` property, we will use that as the backing memory (e.g. any TypedArray or DataView).
    *  If options has no `.buffer` property but has a `.byteLength`, we will allocate a new buffer for the object.
+   *  If the class has a static `byteLength`, it is used when allocating if no `.byteLength` is given.
+   *  If `.buffer` is a resizable `ArrayBuffer` and no `.byteLength` is given, the struct tracks the length of the buffer and can be resized with `resizeStruct`.
+   *  `.maxByteLength` allocates such a resizable buffer, which can grow to that size.
+   *  `.littleEndian` sets the byte order of the struct, defaulting to the static `littleEndian` of the class, or little-endian if none.
    */
   constructor(
     arg:
@@ -88,16 +266,29 @@ export class Struct {
         readonly buffer: ArrayBufferLike
         readonly byteOffset?: number
         readonly byteLength?: number
+        readonly littleEndian?: boolean
       }
       | {
         readonly buffer?: undefined
         readonly byteOffset?: number
         readonly byteLength: number
+        readonly maxByteLength?: number
+        readonly littleEndian?: boolean
       },
   ) {
+    const defaultByteLength: unknown = Reflect.get(new.target, "byteLength")
+    if (typeof arg === "undefined" && typeof defaultByteLength === "number") {
+      arg = { byteLength: defaultByteLength }
+    }
     if (typeof arg !== "object" || arg === null) {
       throw new TypeError("Expected argument to be an object")
     }
+    const byteLength = arg.byteLength ??
+      (typeof defaultByteLength === "number" ? defaultByteLength : undefined)
+
+    const defaultLittleEndian: unknown = Reflect.get(new.target, "littleEndian")
+    this[littleEndianSymbol] = arg.littleEndian ??
+      (typeof defaultLittleEndian === "boolean" ? defaultLittleEndian : true)
 
     Object.preventExtensions(this)
     if (arg.buffer) {
@@ -106,11 +297,29 @@ export class Struct {
         arg.byteOffset,
         arg.byteLength,
       )
-    } else if (typeof arg.byteLength === "number") {
+      if (
+        arg.byteLength === undefined && arg.buffer instanceof ArrayBuffer &&
+        arg.buffer.resizable
+      ) {
+        lengthTrackingViews.add(this[dataViewSymbol])
+      }
+    } else if (
+      typeof byteLength === "number" && "maxByteLength" in arg &&
+      typeof arg.maxByteLength === "number"
+    ) {
+      const byteOffset = arg.byteOffset ?? 0
+      this[dataViewSymbol] = new DataView(
+        new ArrayBuffer(byteLength + byteOffset, {
+          maxByteLength: arg.maxByteLength + byteOffset,
+        }),
+        byteOffset,
+      )
+      lengthTrackingViews.add(this[dataViewSymbol])
+    } else if (typeof byteLength === "number") {
       this[dataViewSymbol] = new DataView(
-        new ArrayBuffer(arg.byteLength + (arg.byteOffset ?? 0)),
+        new ArrayBuffer(byteLength + (arg.byteOffset ?? 0)),
         arg.byteOffset,
-        arg.byteLength,
+        byteLength,
       )
     } else {
       throw new TypeError(
@@ -120,6 +329,123 @@ export class Struct {
   }
 }
 
+/**
+ * Base class of live views of equally spaced items, which can be read and written by index like an array.
+ * `Input` is what may be written to an item besides `T`.
+ * Without a given length, an array holds as many items as fit in its memory, counting the last in full only as far as its size
+ */
+export abstract class ArrayView<T, Input = never> extends Struct
+  implements Indexed<T>, Iterable<T> {
+  /** Items of the array */
+  [index: number]: T
+  #byteStride: number
+  #itemLength: number
+  #length: number | (() => number) | undefined
+
+  /**
+   * Create a new view
+   * @param arg memory of the array and its byte order, as for `Struct`.
+   * @param options spacing and number of items
+   */
+  constructor(
+    arg: ConstructorParameters<typeof Struct>[0],
+    options: {
+      /** number of bytes between the start of consecutive items */
+      readonly byteStride: number
+      /** number of bytes of an item. Defaults to `byteStride` */
+      readonly itemLength?: number
+      /** number of items, or a function returning the number of items. If omitted, as many items as fit in the memory */
+      readonly length?: number | (() => number)
+    },
+  ) {
+    super(arg)
+    this.#byteStride = options.byteStride
+    this.#itemLength = options.itemLength ?? options.byteStride
+    this.#length = options.length
+  }
+
+  /**
+   * Number of items in the array
+   */
+  get length(): number {
+    const length = this.#length
+    if (typeof length === "number") {
+      return length
+    }
+    if (typeof length === "function") {
+      return length()
+    }
+    const byteLength = structDataView(this).byteLength
+    return byteLength < this.#itemLength
+      ? 0
+      : Math.floor((byteLength - this.#itemLength) / this.#byteStride) + 1
+  }
+
+  abstract [getItemSymbol](index: number): T
+  abstract [setItemSymbol](index: number, value: T | Input): void
+
+  /**
+   * Get the item at the given index, counting back from the end if negative
+   * @param index
+   * @returns the item, or undefined if the index is out of bounds
+   */
+  at(index: number): T | undefined {
+    const length = this.length
+    index = Math.trunc(index)
+    if (index < 0) {
+      index += length
+    }
+    if (!(0 <= index && index < length)) {
+      return undefined
+    }
+    return this[getItemSymbol](index)
+  }
+
+  /**
+   * Copy values into consecutive items, like `TypedArray.prototype.set`
+   * @param values values to copy
+   * @param offset index of the first item to write
+   */
+  set(
+    values: ArrayLike<T | Input> | Iterable<T | Input>,
+    offset: number = 0,
+  ): void {
+    const array = Array.from(values)
+    const length = this.length
+    if (!(0 <= offset && offset + array.length <= length)) {
+      throw new RangeError(
+        `cannot write ${array.length} items at index ${offset} of an array of length ${length}`,
+      )
+    }
+    for (let i = 0; i < array.length; ++i) {
+      this[setItemSymbol](offset + i, array[i])
+    }
+  }
+
+  /**
+   * Iterate over the items in the array
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    const length = this.length
+    for (let i = 0; i < length; ++i) {
+      yield this[getItemSymbol](i)
+    }
+  }
+
+  /**
+   * Copy the items into a new plain array
+   */
+  toArray(): T[] {
+    return [...this]
+  }
+
+  /** The JSON form of the array: an array of the JSON forms of its items */
+  toJSON(): unknown {
+    return this[jsonSymbol]()
+  }
+}
+addIndexAccess(ArrayView)
+
 /**
  * Subclass a type by adding the given property descriptors
  * @param ctor constructor for the base class
@@ -140,15 +466,169 @@ function subclassWithProperties<
   }) as SubclassWithProperties<Ctor, MixinFromProps<Props>>
 }
 
+function describeRange(key: string, { byteOffset, byteLength }: FieldLayout) {
+  return `'${key}' (bytes ${byteOffset} to ${byteOffset + byteLength})`
+}
+
+/**
+ * Whether two fields are bitfields in the same container that use different bits
+ */
+function disjointBitfields(a: FieldLayout, b: FieldLayout) {
+  if (
+    a.bitOffset === undefined || a.bitLength === undefined ||
+    b.bitOffset === undefined || b.bitLength === undefined ||
+    a.byteOffset !== b.byteOffset || a.byteLength !== b.byteLength
+  ) {
+    return false
+  }
+  return a.bitOffset + a.bitLength <= b.bitOffset ||
+    b.bitOffset + b.bitLength <= a.bitOffset
+}
+
+/**
+ * Check that fields lie within the struct and do not overlap
+ * @param fields layout of each field
+ * @param byteLength size of the struct
+ * @param unions groups of fields which are allowed to overlap each other
+ * @throws {RangeError} naming the first offending field
+ */
+function validateFields(
+  fields: Record<string, FieldLayout>,
+  byteLength: number | undefined,
+  unions: readonly (readonly PropertyKey[])[],
+) {
+  const entries = Object.entries(fields)
+  for (const [key, layout] of entries) {
+    const { byteOffset, byteLength: fieldLength } = layout
+    if (
+      !Number.isInteger(byteOffset) || byteOffset < 0 ||
+      !Number.isInteger(fieldLength) || fieldLength < 0
+    ) {
+      throw new RangeError(`field ${describeRange(key, layout)} is invalid`)
+    }
+    if (byteLength !== undefined && byteOffset + fieldLength > byteLength) {
+      throw new RangeError(
+        `field ${
+          describeRange(key, layout)
+        } extends past the end of the struct (${byteLength} bytes)`,
+      )
+    }
+  }
+  for (let i = 0; i < entries.length; ++i) {
+    const [key1, layout1] = entries[i]
+    for (let j = i + 1; j < entries.length; ++j) {
+      const [key2, layout2] = entries[j]
+      const overlaps = layout1.byteOffset <
+          layout2.byteOffset + layout2.byteLength &&
+        layout2.byteOffset < layout1.byteOffset + layout1.byteLength &&
+        !disjointBitfields(layout1, layout2)
+      if (
+        overlaps &&
+        !unions.some((union) => union.includes(key1) && union.includes(key2))
+      ) {
+        throw new RangeError(
+          `fields ${describeRange(key1, layout1)} and ${
+            describeRange(key2, layout2)
+          } overlap`,
+        )
+      }
+    }
+  }
+}
+
 /**
  * Subclass struct by adding the given property descriptors
  * @param propertyDescriptors properties to add to subclass instances
+ * @param options size and alignment of the struct, if they should differ from those implied by its fields, and whether to validate the fields against them
  * @returns A new class, inheriting from `Struct`, with the new property descriptors added
  */
 export function defineStruct<const Props extends PropertyDescriptorMap>(
   propertyDescriptors: Props,
-): SubclassWithProperties<typeof Struct, MixinFromProps<Props>> {
-  return subclassWithProperties(Struct, propertyDescriptors)
+  options: StructOptions<keyof Props> = {},
+): DefinedStruct<Props> {
+  const fields: Record<string, FieldLayout> = {}
+  const properties: Record<string, JsonSchema> = {}
+  const fieldTypes: Record<string, FieldType> = {}
+  const primitiveFields: Record<string, PrimitiveAccess> = {}
+  const fieldAccess: Record<string, FieldAccess<unknown>> = {}
+  let end = 0
+  let align = 1
+  // the size is only known if every field has a fixed place
+  let sized = true
+  for (const [key, descriptor] of Object.entries(propertyDescriptors)) {
+    const { layout, schema, type, primitive, access, enumerable } =
+      descriptor as StructPropertyDescriptor<unknown>
+    if (enumerable) {
+      properties[key] = schema ?? {}
+    }
+    if (type) {
+      fieldTypes[key] = type
+    }
+    if (primitive) {
+      primitiveFields[key] = primitive
+    }
+    if (access) {
+      fieldAccess[key] = access
+    }
+    if (layout) {
+      fields[key] = layout
+      end = Math.max(end, layout.byteOffset + layout.byteLength)
+      align = Math.max(align, layout.byteAlign)
+    } else if (enumerable) {
+      sized = false
+    }
+  }
+  const byteLength = options.byteLength ?? (sized ? end : undefined)
+  const byteAlign = options.byteAlign ?? align
+  const littleEndian = options.littleEndian
+  if (options.validate) {
+    validateFields(fields, byteLength, options.unions ?? [])
+  }
+  if (options.toJSON && Object.hasOwn(propertyDescriptors, "toJSON")) {
+    throw new TypeError("field 'toJSON' conflicts with the toJSON option")
+  }
+  const base: typeof Struct = subclassWithProperties(
+    Struct,
+    options.toJSON
+      ? { ...propertyDescriptors, toJSON: { value: structToJSON } }
+      : propertyDescriptors,
+  )
+  return class extends base {
+    static readonly byteLength = byteLength
+    static readonly byteAlign = byteAlign
+    static readonly fields = fields
+    static readonly fieldTypes = fieldTypes
+    static readonly primitiveFields = primitiveFields
+    static readonly fieldAccess = fieldAccess
+    static readonly littleEndian = littleEndian
+    static jsonSchema(): JsonSchema {
+      return {
+        type: "object",
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false,
+      }
+    }
+  } as DefinedStruct<Props>
+}
+
+function structToJSON(this: Struct): unknown {
+  return this[jsonSymbol]()
+}
+
+/**
+ * Resolve a range of indices as `Array.prototype.slice` does: negative indices count back from the end, and both ends are clamped to the array
+ */
+function clampRange(
+  length: number,
+  start: number = 0,
+  end: number = length,
+): [number, number] {
+  const clamp = (i: number) => {
+    i = Math.trunc(i) || 0
+    return i < 0 ? Math.max(length + i, 0) : Math.min(i, length)
+  }
+  return [clamp(start), clamp(end)]
 }
 
 /**
@@ -160,61 +640,282 @@ export function defineArray<Item extends object>(
   arrayOptions: {
     /** Constructor for an object view of each item */
     readonly struct: StructConstructor<Item>
-    /** Number of bytes between the start of consecutive items */
-    readonly byteStride: number
+    /** Number of bytes between the start of consecutive items. Defaults to the size of the struct */
+    readonly byteStride?: number
     /** Total number of items in the array (not bytes). If omitted, the array length will depend on the size of its underlying buffer */
     readonly length?: number
+    /** Byte order of the array. Items inherit it unless their struct declares its own */
+    readonly littleEndian?: boolean
   },
-): StructConstructor<
-  {
-    readonly length: number
-    element(i: number): Item
-  } & Iterable<Item>
-> {
-  const { struct, byteStride, length } = arrayOptions
-
-  class StructArray extends Struct {
+): DefinedArray<Item> {
+  const { struct, length } = arrayOptions
+  const byteStride = arrayOptions.byteStride ?? struct.byteLength ?? NaN
+  if (!(byteStride > 0)) {
+    throw new TypeError("byteStride must be a positive number")
+  }
+
+  type Callback<U> = (item: Item, index: number, array: StructArray) => U
+
+  class StructArray extends ArrayView<Item, object> {
+    static readonly byteLength = typeof length === "number"
+      ? length * byteStride
+      : undefined
+    static readonly byteAlign = struct.byteAlign
+    static readonly littleEndian = arrayOptions.littleEndian
+    /** Constructor for each item */
+    static readonly struct = struct
+    /** Number of bytes between the start of consecutive items */
+    static readonly byteStride = byteStride
+    static jsonSchema(): JsonSchema {
+      return {
+        type: "array",
+        items: struct.jsonSchema?.() ?? { type: "object" },
+        ...(typeof length === "number"
+          ? { minItems: length, maxItems: length }
+          : {}),
+      }
+    }
+
     #struct = struct
-    #length = length
     #byteStride = byteStride
 
     /**
-     * Number of items in the array
+     * Create a new array
+     * @param arg memory of the array, as for `Struct`
+     * @param count number of items, for a view of part of an array. Defaults to the length of the class, if fixed
      */
-    get length() {
-      if (typeof this.#length === "number") {
-        return this.#length
+    constructor(
+      arg: ConstructorParameters<typeof Struct>[0],
+      count: number | undefined = length,
+    ) {
+      super(arg, { byteStride, length: count })
+    }
+
+    [getItemSymbol](index: number): Item {
+      const ctor = this.#struct
+      const dv = structDataView(this)
+      return new ctor({
+        buffer: dv.buffer,
+        byteOffset: dv.byteOffset + this.#byteStride * index,
+        byteLength: this.#byteStride,
+        littleEndian: ctor.littleEndian ?? structLittleEndian(this),
+      })
+    }
+
+    [setItemSymbol](index: number, value: Item | object): void {
+      if (dataViewSymbol in value) {
+        this.#copyInto(index, structBytes(value as AnyStruct).slice())
+      } else {
+        writeInto(this[getItemSymbol](index), value)
       }
-      return structDataView(this).byteLength / this.#byteStride
+    }
+
+    #copyInto(index: number, source: Uint8Array) {
+      const start = this.#byteStride * index
+      const byteLength = Math.min(
+        this.#struct.byteLength ?? this.#byteStride,
+        this.#byteStride,
+        source.length,
+      )
+      structBytes(this, start, start + byteLength)
+        .set(source.subarray(0, byteLength))
     }
 
     /**
      * A view of the item at the given index
-     * @param index
+     * @param index index of the item, which must be in bounds
      * @returns a new struct instance viewing the item at the given index
      */
     item(index: number): Item {
-      const ctor = this.#struct
-      return new ctor(
-        structBytes(
-          this,
-          this.#byteStride * index,
-          this.#byteStride * (index + 1),
-        ),
-      )
+      const length = this.length
+      if (!(Number.isInteger(index) && 0 <= index && index < length)) {
+        throw new RangeError(
+          `index ${index} is out of bounds for length ${length}`,
+        )
+      }
+      return this[getItemSymbol](index)
     }
     /** @deprecated use item() instead */
-    element(index: number) {
+    element(index: number): Item {
       return this.item(index)
     }
+
+    /**
+     * A view of a range of items, sharing the same memory, like `TypedArray.prototype.subarray`
+     * @param start index of the first item, counting back from the end if negative
+     * @param end index after the last item, counting back from the end if negative. Defaults to the length of the array
+     */
+    subarray(start?: number, end?: number): StructArray {
+      const [from, to] = clampRange(this.length, start, end)
+      const dv = structDataView(this)
+      const count = Math.max(to - from, 0)
+      const view: StructArray = Reflect.construct(this.constructor, [{
+        buffer: dv.buffer,
+        byteOffset: dv.byteOffset + from * this.#byteStride,
+        byteLength: Math.min(
+          count * this.#byteStride,
+          dv.byteLength - from * this.#byteStride,
+        ),
+        littleEndian: structLittleEndian(this),
+      }, count])
+      return view
+    }
+
+    /**
+     * Copy the bytes of a range of items to another position in the array, like `Array.prototype.copyWithin`
+     * @param target index to copy to
+     * @param start index of the first item to copy
+     * @param end index after the last item to copy. Defaults to the length of the array
+     * @returns this array
+     */
+    copyWithin(target: number, start: number, end?: number): this {
+      const length = this.length
+      const [to] = clampRange(length, target)
+      const [from, until] = clampRange(length, start, end)
+      const count = Math.min(until - from, length - to)
+      if (count > 0) {
+        const stride = this.#byteStride
+        structBytes(this).copyWithin(
+          to * stride,
+          from * stride,
+          (from + count) * stride,
+        )
+      }
+      return this
+    }
+
     /**
-     * Iterate over the items in the array
+     * Copy a struct or plain object into every item of a range, like `Array.prototype.fill`
+     * @param value struct, copied byte for byte, or plain object, copied property by property
+     * @param start index of the first item to fill
+     * @param end index after the last item to fill. Defaults to the length of the array
+     * @returns this array
      */
-    *[Symbol.iterator]() {
+    fill(value: Item | object, start?: number, end?: number): this {
+      const [from, to] = clampRange(this.length, start, end)
+      if (dataViewSymbol in value) {
+        // copy a struct first, in case it is in this array
+        const source = structBytes(value as AnyStruct).slice()
+        for (let i = from; i < to; ++i) {
+          this.#copyInto(i, source)
+        }
+      } else {
+        for (let i = from; i < to; ++i) {
+          writeInto(this[getItemSymbol](i), value)
+        }
+      }
+      return this
+    }
+
+    /** Call a function for each item, like `Array.prototype.forEach` */
+    forEach(callback: Callback<void>): void {
       for (let i = 0; i < this.length; ++i) {
-        yield this.item(i)
+        callback(this[getItemSymbol](i), i, this)
+      }
+    }
+
+    /** Make a plain array of the results of a function of each item, like `Array.prototype.map` */
+    map<U>(callback: Callback<U>): U[] {
+      const result: U[] = []
+      this.forEach((item, i) => result.push(callback(item, i, this)))
+      return result
+    }
+
+    /** Make a plain array of the items satisfying a predicate, like `Array.prototype.filter` */
+    filter(predicate: Callback<unknown>): Item[] {
+      const result: Item[] = []
+      this.forEach((item, i) => {
+        if (predicate(item, i, this)) {
+          result.push(item)
+        }
+      })
+      return result
+    }
+
+    /** The first item satisfying a predicate, like `Array.prototype.find` */
+    find(predicate: Callback<unknown>): Item | undefined {
+      const index = this.findIndex(predicate)
+      return index < 0 ? undefined : this[getItemSymbol](index)
+    }
+
+    /** Index of the first item satisfying a predicate, or -1, like `Array.prototype.findIndex` */
+    findIndex(predicate: Callback<unknown>): number {
+      for (let i = 0; i < this.length; ++i) {
+        if (predicate(this[getItemSymbol](i), i, this)) {
+          return i
+        }
+      }
+      return -1
+    }
+
+    /** Whether any item satisfies a predicate, like `Array.prototype.some` */
+    some(predicate: Callback<unknown>): boolean {
+      return this.findIndex(predicate) >= 0
+    }
+
+    /** Whether every item satisfies a predicate, like `Array.prototype.every` */
+    every(predicate: Callback<unknown>): boolean {
+      return this.findIndex((item, i, array) => !predicate(item, i, array)) < 0
+    }
+
+    #resize(length: number) {
+      if (typeof arrayOptions.length === "number" || !isResizable(this)) {
+        throw new TypeError("array cannot be resized")
+      }
+      resizeStruct(this, length * this.#byteStride)
+    }
+
+    /**
+     * Append items to an array over a resizable buffer, growing the buffer, like `Array.prototype.push`.
+     * Structs are copied byte for byte, and plain objects property by property
+     * @param values items to append
+     * @returns the new length of the array
+     */
+    push(...values: (Item | object)[]): number {
+      const length = this.length
+      this.#resize(length + values.length)
+      try {
+        this.set(values, length)
+      } catch (e) {
+        this.#resize(length)
+        throw e
+      }
+      return this.length
+    }
+
+    /**
+     * Remove the last item of an array over a resizable buffer, shrinking the buffer, like `Array.prototype.pop`
+     * @returns a copy of the removed item, or undefined if the array was empty
+     */
+    pop(): Item | undefined {
+      const length = this.length
+      if (length === 0) {
+        return undefined
+      }
+      const item = this[getItemSymbol](length - 1)
+      const ctor = this.#struct
+      const copy = new ctor({
+        buffer: structBytes(item as AnyStruct).slice().buffer,
+        byteOffset: 0,
+        byteLength: this.#byteStride,
+        littleEndian: structLittleEndian(item as AnyStruct),
+      })
+      this.#resize(length - 1)
+      return copy
+    }
+
+    /**
+     * Remove items from the end of an array over a resizable buffer, shrinking the buffer
+     * @param length new number of items, no more than the current length
+     */
+    truncate(length: number): void {
+      if (!(Number.isInteger(length) && 0 <= length && length <= this.length)) {
+        throw new RangeError(
+          `cannot truncate an array of length ${this.length} to ${length}`,
+        )
       }
+      this.#resize(length)
     }
   }
-  return StructArray
+  return StructArray as DefinedArray<Item>
 }
@@ -0,0 +1,618 @@
+/**
+ * Tools for turning C struct declarations into struct classes or TypeScript source
+ * @module
+ */
+
+import { defineArray } from "./core.ts"
+import {
+  array,
+  bool,
+  f16,
+  f32,
+  f64,
+  i16,
+  i32,
+  i64,
+  i8,
+  numberArray,
+  string,
+  substruct,
+  u16,
+  u32,
+  u64,
+  u8,
+} from "./fields.ts"
+import type { NumberType } from "./arrays.ts"
+import { defineLayout, type FieldFactory, type LayoutStruct } from "./layout.ts"
+
+/**
+ * Options for translating C declarations
+ */
+export type CStructOptions = {
+  /** name of the struct to produce, if the source declares more than one. Defaults to the last */
+  readonly name?: string
+  /** byte order of the structs, as in `defineStruct` */
+  readonly littleEndian?: boolean
+}
+
+/**
+ * Options for generating TypeScript source from C declarations
+ */
+export type CStructSourceOptions = {
+  /** module to import field factories from. Defaults to `"@rotu/structview"` */
+  readonly importFrom?: string
+  /** byte order of the structs, as in `defineStruct` */
+  readonly littleEndian?: boolean
+}
+
+/** A struct class parsed from C */
+export type CStruct = LayoutStruct<Record<string, FieldFactory<unknown>>>
+
+type CType =
+  | { readonly kind: "number"; readonly type: NumberType }
+  | { readonly kind: "bool" }
+  | { readonly kind: "char" }
+  | { readonly kind: "struct"; readonly declaration: CStructDeclaration }
+
+type CMember = {
+  readonly name: string
+  readonly type: CType
+  /** array dimensions, outermost first */
+  readonly dims: readonly number[]
+}
+
+type CStructDeclaration = {
+  /** name of the struct. Empty for an anonymous struct until it is named after its enclosing struct */
+  name: string
+  members: readonly CMember[]
+  pack: number | undefined
+  /** false for a struct only declared so far, as by `typedef struct Foo Foo;` */
+  complete: boolean
+}
+
+const C_TYPES: Record<string, NumberType | "bool" | "char"> = {
+  "char": "char",
+  "signed char": "i8",
+  "unsigned char": "u8",
+  "short": "i16",
+  "short int": "i16",
+  "signed short": "i16",
+  "signed short int": "i16",
+  "unsigned short": "u16",
+  "unsigned short int": "u16",
+  "int": "i32",
+  "signed": "i32",
+  "signed int": "i32",
+  "unsigned": "u32",
+  "unsigned int": "u32",
+  "long long": "i64",
+  "long long int": "i64",
+  "signed long long": "i64",
+  "signed long long int": "i64",
+  "unsigned long long": "u64",
+  "unsigned long long int": "u64",
+  "int8_t": "i8",
+  "uint8_t": "u8",
+  "int16_t": "i16",
+  "uint16_t": "u16",
+  "int32_t": "i32",
+  "uint32_t": "u32",
+  "int64_t": "i64",
+  "uint64_t": "u64",
+  "_Float16": "f16",
+  "float": "f32",
+  "double": "f64",
+  "bool": "bool",
+  "_Bool": "bool",
+}
+
+const NUMBER_FIELDS: Record<NumberType, FieldFactory<number | bigint>> = {
+  u8,
+  i8,
+  u16,
+  i16,
+  u32,
+  i32,
+  u64,
+  i64,
+  f16,
+  f32,
+  f64,
+}
+
+const TOKEN_PATTERN =
+  /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|#[^\n]*|[A-Za-z_]\w*|0[xX][0-9a-fA-F]+\w*|\d+\w*|\S/g
+
+/**
+ * Split C source into tokens, dropping whitespace, comments, and preprocessor lines other than `#pragma pack`
+ */
+function tokenize(source: string): string[] {
+  const tokens = []
+  for (const [token] of source.matchAll(TOKEN_PATTERN)) {
+    if (token.startsWith("#")) {
+      if (/^#\s*pragma\s+pack\b/.test(token)) {
+        tokens.push(token.replace(/\s+/g, ""))
+      }
+    } else if (!/^(\s|\/\/|\/\*)/.test(token)) {
+      tokens.push(token)
+    }
+  }
+  return tokens
+}
+
+/** Words which may be combined to name an integer type, like `unsigned long long` */
+const INTEGER_WORDS = ["signed", "unsigned", "short", "long", "int", "char"]
+
+function isIdentifier(token: string | undefined): token is string {
+  return token !== undefined && /^[A-Za-z_]\w*$/.test(token)
+}
+
+function parseInteger(token: string): number {
+  const match = /^(0[xX][0-9a-fA-F]+|\d+)[uUlL]*$/.exec(token)
+  if (!match) {
+    throw new TypeError(`array length must be a number, not '${token}'`)
+  }
+  return Number(match[1])
+}
+
+/**
+ * Parse the struct declarations in C source, in an order where each struct comes after the structs it contains.
+ * Anonymous nested structs are named after their enclosing struct and member, e.g. `Outer_inner`
+ */
+function parseDeclarations(source: string): CStructDeclaration[] {
+  const tokens = tokenize(source)
+  const topLevel: CStructDeclaration[] = []
+  // struct tags and typedef names
+  const names = new Map<string, CStructDeclaration>()
+  const packStack: (number | undefined)[] = []
+  let pack: number | undefined
+  let i = 0
+
+  function peek(): string | undefined {
+    return tokens[i]
+  }
+  function next(): string {
+    if (i >= tokens.length) {
+      throw new SyntaxError("unexpected end of input")
+    }
+    return tokens[i++]
+  }
+  function expect(token: string) {
+    const actual = next()
+    if (actual !== token) {
+      throw new SyntaxError(`expected '${token}' but got '${actual}'`)
+    }
+  }
+  function identifier(): string {
+    const token = next()
+    if (!isIdentifier(token)) {
+      throw new SyntaxError(`expected a name but got '${token}'`)
+    }
+    return token
+  }
+
+  function applyPragma(token: string) {
+    const args = /^#pragmapack\((.*)\)$/.exec(token)?.[1].split(",") ?? []
+    if (args[0] === "push") {
+      packStack.push(pack)
+      pack = args[1] ? parseInteger(args[1]) : pack
+    } else if (args[0] === "pop") {
+      pack = packStack.pop()
+    } else {
+      pack = args[0] ? parseInteger(args[0]) : undefined
+    }
+  }
+
+  /** Parse any `__attribute__((...))`, returning whether they declare the struct packed */
+  function parseAttributes(): boolean {
+    let packed = false
+    while (peek() === "__attribute__") {
+      next()
+      expect("(")
+      expect("(")
+      while (peek() !== ")") {
+        const attribute = next()
+        if (attribute === "packed" || attribute === "__packed__") {
+          packed = true
+        } else if (attribute !== ",") {
+          throw new TypeError(`unsupported attribute '${attribute}'`)
+        }
+      }
+      expect(")")
+      expect(")")
+    }
+    return packed
+  }
+
+  /**
+   * Parse a struct specifier after the `struct` keyword:
+   * a reference like `Point`, or a definition like `Point { ... }` or `{ ... }`
+   */
+  function parseStruct(): CStructDeclaration {
+    let packed = parseAttributes()
+    const tag = isIdentifier(peek()) ? next() : undefined
+    packed = parseAttributes() || packed
+    if (peek() !== "{") {
+      if (tag === undefined) {
+        throw new SyntaxError(`expected a struct name but got '${peek()}'`)
+      }
+      let declaration = names.get(tag)
+      if (declaration === undefined) {
+        // a forward declaration, completed by a later definition
+        declaration = {
+          name: tag,
+          members: [],
+          pack: undefined,
+          complete: false,
+        }
+        names.set(tag, declaration)
+      }
+      return declaration
+    }
+    next()
+    const members: CMember[] = []
+    while (peek() !== "}") {
+      members.push(...parseMember())
+    }
+    next()
+    packed = parseAttributes() || packed
+    const forward = tag === undefined ? undefined : names.get(tag)
+    if (forward !== undefined && !forward.complete) {
+      forward.members = members
+      forward.pack = packed ? 1 : pack
+      forward.complete = true
+      return forward
+    }
+    const declaration = {
+      name: tag ?? "",
+      members,
+      pack: packed ? 1 : pack,
+      complete: true,
+    }
+    if (tag !== undefined) {
+      names.set(tag, declaration)
+    }
+    return declaration
+  }
+
+  function lookup(name: string): CStructDeclaration {
+    const declaration = names.get(name)
+    if (declaration === undefined) {
+      throw new TypeError(`unknown struct '${name}'`)
+    }
+    return declaration
+  }
+
+  /** Parse a type specifier, e.g. `unsigned int` or `struct Point` */
+  function parseType(): CType {
+    const words: string[] = []
+    for (let token = peek(); isIdentifier(token); token = peek()) {
+      if (token === "const" || token === "volatile") {
+        next()
+      } else if (token === "struct" && words.length === 0) {
+        next()
+        return { kind: "struct", declaration: parseStruct() }
+      } else if (token === "union" || token === "enum") {
+        throw new TypeError(`${token} members are not supported`)
+      } else if (
+        words.length === 0 ||
+        (INTEGER_WORDS.includes(token) &&
+          words.every((word) => INTEGER_WORDS.includes(word)))
+      ) {
+        words.push(next())
+      } else {
+        break
+      }
+    }
+    const typeName = words.join(" ")
+    if (typeName === "") {
+      throw new SyntaxError(`expected a type but got '${peek()}'`)
+    }
+    const type = C_TYPES[typeName]
+    if (type === "char" || type === "bool") {
+      return { kind: type }
+    }
+    if (type !== undefined) {
+      return { kind: "number", type }
+    }
+    if (words.includes("long")) {
+      throw new TypeError(`type '${typeName}' has a platform-dependent size`)
+    }
+    if (names.has(typeName)) {
+      return { kind: "struct", declaration: lookup(typeName) }
+    }
+    throw new TypeError(`unknown type '${typeName}'`)
+  }
+
+  /** Parse a member declaration like `float y[4];` or `int a, b;` */
+  function parseMember(): CMember[] {
+    const type = parseType()
+    const members = []
+    for (;;) {
+      if (peek() === "*") {
+        throw new TypeError("pointers are not supported")
+      }
+      const name = identifier()
+      const dims = []
+      while (peek() === "[") {
+        next()
+        dims.push(parseInteger(next()))
+        expect("]")
+      }
+      if (peek() === ":") {
+        throw new TypeError("bitfields are not supported")
+      }
+      members.push({ name, type, dims })
+      if (peek() !== ",") {
+        break
+      }
+      next()
+    }
+    expect(";")
+    return members
+  }
+
+  /** Skip a top-level statement that does not define a struct */
+  function skipStatement() {
+    let depth = 0
+    while (i < tokens.length) {
+      const token = next()
+      if (token === "{") {
+        ++depth
+      } else if (token === "}") {
+        --depth
+      } else if (token === ";" && depth === 0) {
+        return
+      }
+    }
+  }
+
+  while (i < tokens.length) {
+    const start = i
+    const token = next()
+    if (token.startsWith("#pragma")) {
+      applyPragma(token)
+      continue
+    }
+    const typedef = token === "typedef"
+    if ((typedef ? next() : token) !== "struct") {
+      i = start
+      skipStatement()
+      continue
+    }
+    const declaration = parseStruct()
+    if (typedef) {
+      const alias = identifier()
+      names.set(alias, declaration)
+      if (declaration.name === "") {
+        declaration.name = alias
+      }
+    }
+    if (
+      declaration.complete && declaration.name !== "" &&
+      !topLevel.includes(declaration)
+    ) {
+      topLevel.push(declaration)
+    }
+    if (typedef || peek() === ";") {
+      expect(";")
+    } else {
+      // a variable of struct type
+      skipStatement()
+    }
+  }
+
+  // order nested structs before the structs containing them
+  const ordered: CStructDeclaration[] = []
+  function visit(declaration: CStructDeclaration) {
+    if (!declaration.complete) {
+      throw new TypeError(`unknown struct '${declaration.name}'`)
+    }
+    for (const { name, type } of declaration.members) {
+      if (type.kind === "struct" && !ordered.includes(type.declaration)) {
+        if (type.declaration.name === "") {
+          type.declaration.name = `${declaration.name}_${name}`
+        }
+        visit(type.declaration)
+      }
+    }
+    if (!ordered.includes(declaration)) {
+      ordered.push(declaration)
+    }
+  }
+  topLevel.forEach(visit)
+  return ordered
+}
+
+/**
+ * A field translated from a C member, both as a factory and as TypeScript source
+ */
+type TranslatedField = {
+  readonly factory: FieldFactory<unknown>
+  readonly source: string
+  /** names to import for the source */
+  readonly imports: readonly string[]
+}
+
+function translateMember(
+  { name, type, dims }: CMember,
+  classes: Map<CStructDeclaration, CStruct>,
+): TranslatedField {
+  const length = dims.reduce((a, b) => a * b, 1)
+  switch (type.kind) {
+    case "struct": {
+      const struct = classes.get(type.declaration)!
+      const className = type.declaration.name
+      if (dims.length === 0) {
+        return {
+          factory: (offset) => substruct(struct, offset),
+          source: `(offset) => substruct(${className}, offset)`,
+          imports: ["substruct"],
+        }
+      }
+      const array = defineArray({ struct, length })
+      return {
+        factory: (offset) => substruct(array, offset),
+        source:
+          `(offset) => substruct(defineArray({ struct: ${className}, length: ${length} }), offset)`,
+        imports: ["defineArray", "substruct"],
+      }
+    }
+    case "bool":
+      if (dims.length === 0) {
+        return { factory: bool, source: "bool", imports: ["bool"] }
+      }
+      return {
+        factory: (offset) => array(offset, { item: bool, length }),
+        source: `(offset) => array(offset, { item: bool, length: ${length} })`,
+        imports: ["array", "bool"],
+      }
+    case "char": {
+      if (dims.length === 1) {
+        return {
+          factory: (offset) => string(offset, length),
+          source: `(offset) => string(offset, ${length})`,
+          imports: ["string"],
+        }
+      }
+      if (dims.length > 1) {
+        // an array of strings, each the size of the innermost dimension
+        const stringLength = dims[dims.length - 1]
+        const count = length / stringLength
+        return {
+          factory: (offset) =>
+            array(offset, {
+              item: (o) => string(o, stringLength),
+              length: count,
+            }),
+          source:
+            `(offset) => array(offset, { item: (o) => string(o, ${stringLength}), length: ${count} })`,
+          imports: ["array", "string"],
+        }
+      }
+      return translateMember({
+        name,
+        type: { kind: "number", type: "i8" },
+        dims,
+      }, classes)
+    }
+    case "number":
+      if (dims.length === 0) {
+        return {
+          factory: NUMBER_FIELDS[type.type],
+          source: type.type,
+          imports: [type.type],
+        }
+      }
+      return {
+        factory: (offset) => numberArray(offset, { type: type.type, length }),
+        source:
+          `(offset) => numberArray(offset, { type: "${type.type}", length: ${length} })`,
+        imports: ["numberArray"],
+      }
+  }
+}
+
+function layoutOptions(
+  declaration: CStructDeclaration,
+  littleEndian: boolean | undefined,
+) {
+  return {
+    ...(declaration.pack === 1
+      ? { packed: true }
+      : declaration.pack === undefined
+      ? {}
+      : { pack: declaration.pack }),
+    ...(littleEndian === undefined ? {} : { littleEndian }),
+  }
+}
+
+/**
+ * Translate C struct declarations into struct classes, whose fields are laid out as a C compiler would.
+ *
+ * @remarks
+ * Supports fixed-width and standard integer types (except `long`, whose size varies), `float`, `double`, `bool`,
+ * `char` arrays (as strings), arrays of any of these (multidimensional arrays are flattened, except arrays of strings),
+ * nested and previously declared structs, `__attribute__((packed))`, and `#pragma pack`.
+ * Other top-level declarations are ignored.
+ *
+ * @example
+ * ```ts
+ * class Sample extends defineCStruct(`
+ *   struct Sample { uint16_t x; float y[4]; char name[16]; };
+ * `) {}
+ * ```
+ * @param source C source declaring one or more structs
+ * @param options which struct to produce, and its byte order
+ * @returns a new class, as from `defineLayout`
+ */
+export function defineCStruct(
+  source: string,
+  options: CStructOptions = {},
+): CStruct {
+  const classes = new Map<CStructDeclaration, CStruct>()
+  const declarations = parseDeclarations(source)
+  for (const declaration of declarations) {
+    const fields: Record<string, FieldFactory<unknown>> = {}
+    for (const member of declaration.members) {
+      fields[member.name] = translateMember(member, classes).factory
+    }
+    classes.set(
+      declaration,
+      defineLayout(fields, layoutOptions(declaration, options.littleEndian)),
+    )
+  }
+  const declaration = options.name === undefined
+    ? declarations.at(-1)
+    : declarations.find((d) => d.name === options.name)
+  if (declaration === undefined) {
+    throw new TypeError(
+      options.name === undefined
+        ? "no struct declared"
+        : `no struct named '${options.name}'`,
+    )
+  }
+  return classes.get(declaration)!
+}
+
+/**
+ * Generate TypeScript source declaring a struct class for each struct in C source, as `defineCStruct` would.
+ * @param source C source declaring one or more structs
+ * @param options where to import from, and the byte order of the structs
+ * @returns TypeScript source exporting a class for each struct
+ */
+export function cStructToTypeScript(
+  source: string,
+  options: CStructSourceOptions = {},
+): string {
+  const classes = new Map<CStructDeclaration, CStruct>()
+  const imports = new Set(["defineLayout"])
+  const declarations = []
+  for (const declaration of parseDeclarations(source)) {
+    const lines = []
+    const fields: Record<string, FieldFactory<unknown>> = {}
+    for (const member of declaration.members) {
+      const field = translateMember(member, classes)
+      fields[member.name] = field.factory
+      field.imports.forEach((name) => imports.add(name))
+      lines.push(`  ${member.name}: ${field.source},`)
+    }
+    const layout = layoutOptions(declaration, options.littleEndian)
+    classes.set(declaration, defineLayout(fields, layout))
+    const optionsSource = Object.keys(layout).length === 0
+      ? ""
+      : `, { ${
+        Object.entries(layout).map(([key, value]) => `${key}: ${value}`)
+          .join(", ")
+      } }`
+    declarations.push(
+      `export class ${declaration.name} extends defineLayout({\n${
+        lines.join("\n")
+      }\n}${optionsSource}) {}\n`,
+    )
+  }
+  const importFrom = options.importFrom ?? "@rotu/structview"
+  return `import { ${[...imports].sort().join(", ")} } from ${
+    JSON.stringify(importFrom)
+  }\n\n${declarations.join("\n")}`
+}
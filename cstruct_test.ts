@@ -0,0 +1,156 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert"
+import { cStructToTypeScript, defineCStruct } from "./cstruct.ts"
+import { FieldArray, NumberArray } from "./arrays.ts"
+import { toObject } from "./convert.ts"
+
+const HEADER = `
+#include <stdint.h>
+#define MAX_NAME 16
+
+/* a point */
+typedef struct {
+  int16_t x, y;
+} Point;
+
+struct Sample {
+  uint16_t id; // first
+  float y[4];
+  char name[16];
+  Point origin;
+  struct Point_t { uint8_t a; } __attribute__((packed)) tagged;
+  struct { double value; } inner;
+  Point corners[2];
+  unsigned long long stamp;
+  bool ok;
+};
+`
+
+Deno.test("defineCStruct", () => {
+  const Sample = defineCStruct(HEADER)
+  assertEquals(Sample.byteLength, 80)
+  assertEquals(Sample.byteAlign, 8)
+  assertEquals(Sample.fields.id.byteOffset, 0)
+  assertEquals(Sample.fields.y.byteOffset, 4)
+  assertEquals(Sample.fields.name.byteOffset, 20)
+  assertEquals(Sample.fields.origin.byteOffset, 36)
+  assertEquals(Sample.fields.tagged.byteOffset, 40)
+  assertEquals(Sample.fields.inner.byteOffset, 48)
+  assertEquals(Sample.fields.corners.byteOffset, 56)
+  assertEquals(Sample.fields.stamp.byteOffset, 64)
+  assertEquals(Sample.fields.ok.byteOffset, 72)
+
+  const Point = defineCStruct(HEADER, { name: "Point" })
+  assertEquals(Point.byteLength, 4)
+})
+
+Deno.test("defineCStruct values", () => {
+  const S = defineCStruct(`
+    struct S { uint8_t tag; uint32_t n; char name[4]; float v[2]; };
+  `)
+  assertEquals(S.byteLength, 20)
+  const s = new S()
+  s.n = 7
+  s.name = "abc"
+  const v = s.v
+  assertInstanceOf(v, NumberArray)
+  assertEquals(v.length, 2)
+  assertEquals(s.name, "abc")
+  assertEquals(s.n, 7)
+
+  const T = defineCStruct(`struct T { char names[2][3][4]; bool ok[2]; };`)
+  assertEquals(T.byteLength, 26)
+  const t = new T()
+  const names = t.names
+  assertInstanceOf(names, FieldArray)
+  names[5] = "xyz"
+  assertEquals(names.length, 6)
+  assertEquals(names.at(-1), "xyz")
+  Object.assign(t, { ok: [false, true] })
+  assertEquals(toObject(t), {
+    names: ["", "", "", "", "", "xyz"],
+    ok: [false, true],
+  })
+})
+
+Deno.test("defineCStruct packing", () => {
+  const Packed = defineCStruct(`
+    struct __attribute__((packed)) P { uint8_t a; uint32_t b; };
+  `)
+  assertEquals(Packed.byteLength, 5)
+  const Pragma = defineCStruct(
+    `
+    #pragma pack(push, 2)
+    struct P { uint8_t a; uint32_t b; };
+    #pragma pack(pop)
+    struct Q { uint8_t a; uint32_t b; };
+  `,
+    { name: "P" },
+  )
+  assertEquals(Pragma.byteLength, 6)
+  const Natural = defineCStruct(`
+    #pragma pack(push, 2)
+    struct P { uint8_t a; uint32_t b; };
+    #pragma pack(pop)
+    struct Q { uint8_t a; uint32_t b; };
+  `)
+  assertEquals(Natural.byteLength, 8)
+})
+
+Deno.test("defineCStruct forward declarations", () => {
+  const List = defineCStruct(`
+    typedef struct Node Node;
+    struct Bare;
+    struct Node { int32_t value; };
+    typedef struct List { Node head; struct Node nodes[2]; } List;
+  `)
+  assertEquals(List.byteLength, 12)
+  const Node = defineCStruct(
+    "typedef struct Node Node; struct Node { int16_t value; };",
+  )
+  assertEquals(Node.byteLength, 2)
+  assertThrows(
+    () => defineCStruct("typedef struct B B; struct A { B b; };"),
+    TypeError,
+    "unknown struct 'B'",
+  )
+})
+
+Deno.test("defineCStruct errors", () => {
+  assertThrows(() => defineCStruct("struct A { long x; };"), TypeError)
+  assertThrows(() => defineCStruct("struct A { int *x; };"), TypeError)
+  assertThrows(() => defineCStruct("struct A { int x : 3; };"), TypeError)
+  assertThrows(() => defineCStruct("struct A { foo_t x; };"), TypeError)
+  assertThrows(() => defineCStruct("struct A { int x[N]; };"), TypeError)
+  assertThrows(() => defineCStruct("struct A { int x "), SyntaxError)
+  assertThrows(() => defineCStruct("int x;"), TypeError)
+})
+
+Deno.test("cStructToTypeScript", () => {
+  assertEquals(
+    cStructToTypeScript(`
+      typedef struct { int16_t x, y; } Point;
+      struct Shape {
+        char name[8];
+        Point points[3];
+        float weights[2][2];
+        char labels[2][4];
+        bool visible[3];
+      } __attribute__((packed));
+    `),
+    `import { array, bool, defineArray, defineLayout, i16, numberArray, string, substruct } from "@rotu/structview"
+
+export class Point extends defineLayout({
+  x: i16,
+  y: i16,
+}) {}
+
+export class Shape extends defineLayout({
+  name: (offset) => string(offset, 8),
+  points: (offset) => substruct(defineArray({ struct: Point, length: 3 }), offset),
+  weights: (offset) => numberArray(offset, { type: "f32", length: 4 }),
+  labels: (offset) => array(offset, { item: (o) => string(o, 4), length: 2 }),
+  visible: (offset) => array(offset, { item: bool, length: 3 }),
+}, { packed: true }) {}
+`,
+  )
+})
@@ -0,0 +1,614 @@
+/**
+ * Generators for declarations of a struct in C, Rust, and Python, matching its layout
+ * @module
+ */
+
+import type { NumberType } from "./arrays.ts"
+import type { FieldLayout, FieldType, StructConstructor } from "./types.ts"
+
+/**
+ * Options for generating declarations
+ */
+export type EmitOptions = {
+  /** name of the outermost struct. Defaults to the name of the class */
+  readonly name?: string
+}
+
+/** A struct class with static layout information, as made by `defineStruct` */
+type LaidOutStruct = StructConstructor<object> & {
+  readonly fields?: { readonly [key: string]: FieldLayout | undefined }
+  readonly fieldTypes?: { readonly [key: string]: FieldType | undefined }
+}
+
+/** Type of a member or of each item of an array member */
+type ElementType = NumberType | "bool" | "char" | Declaration
+
+type Bitfield = {
+  readonly name: string
+  readonly type: NumberType
+  readonly bitOffset: number
+  readonly bitLength: number
+}
+
+type ForeignNumber = {
+  readonly type: NumberType
+  readonly littleEndian: boolean
+}
+
+type Member =
+  | {
+    readonly kind: "field"
+    readonly name: string
+    readonly type: ElementType
+    /** number of items, if an array. Multidimensional arrays are flattened */
+    readonly length: number | undefined
+    readonly byteOffset: number
+    /** number stored in the bytes of the field, if in the other byte order */
+    readonly number?: ForeignNumber
+  }
+  | {
+    readonly kind: "padding"
+    readonly name: string
+    readonly byteLength: number
+  }
+  | {
+    readonly kind: "bits"
+    readonly container: NumberType
+    readonly bitfields: readonly Bitfield[]
+  }
+
+type Declaration = {
+  readonly name: string
+  readonly union: boolean
+  readonly packed: boolean
+  readonly byteLength: number
+  readonly byteAlign: number
+  readonly littleEndian: boolean
+  readonly members: readonly Member[]
+}
+
+const NUMBER_SIZES: Record<NumberType, number> = {
+  u8: 1,
+  i8: 1,
+  u16: 2,
+  i16: 2,
+  u32: 4,
+  i32: 4,
+  u64: 8,
+  i64: 8,
+  f16: 2,
+  f32: 4,
+  f64: 8,
+}
+
+function alignUp(n: number, align: number) {
+  return Math.ceil(n / align) * align
+}
+
+function sizeOf(type: ElementType): number {
+  if (typeof type === "object") {
+    return type.byteLength
+  }
+  return type === "bool" || type === "char" ? 1 : NUMBER_SIZES[type]
+}
+
+function alignOf(type: ElementType): number {
+  return typeof type === "object" ? type.byteAlign : sizeOf(type)
+}
+
+/**
+ * Describe a struct class and the structs it contains,
+ * in an order where each declaration follows those it uses
+ */
+function describe(root: LaidOutStruct, rootName: string): Declaration[] {
+  const declarations: Declaration[] = []
+  // a struct without a byte order of its own takes that of its parent, so may be declared once per byte order
+  const visited = new Map<StructConstructor<object>, Declaration[]>()
+
+  function elementType(
+    type: FieldType,
+    parent: string,
+    field: string,
+    littleEndian: boolean,
+  ):
+    | { type: ElementType; length: number | undefined; number?: ForeignNumber }
+    | undefined {
+    if (typeof type === "string") {
+      return { type, length: undefined }
+    }
+    if ("number" in type) {
+      // a number in the other byte order can only be declared as bytes
+      return type.littleEndian === littleEndian
+        ? { type: type.number, length: undefined }
+        : {
+          type: "u8",
+          length: NUMBER_SIZES[type.number],
+          number: { type: type.number, littleEndian: type.littleEndian },
+        }
+    }
+    if ("array" in type) {
+      const item = elementType(type.array, parent, field, littleEndian)
+      return item && {
+        ...item,
+        length: (item.length ?? 1) * type.length,
+      }
+    }
+    const struct = type.struct as LaidOutStruct & {
+      readonly struct?: LaidOutStruct
+      readonly byteStride?: number
+    }
+    if (struct.struct === undefined || struct.byteStride === undefined) {
+      return {
+        type: visit(
+          struct,
+          struct.name || `${parent}_${field}`,
+          littleEndian,
+        ),
+        length: undefined,
+      }
+    }
+    // an array of structs, from defineArray
+    const item = struct.struct
+    if (
+      struct.byteLength === undefined || item.byteLength !== struct.byteStride
+    ) {
+      return undefined
+    }
+    return {
+      type: visit(item, item.name || `${parent}_${field}`, littleEndian),
+      length: struct.byteLength / struct.byteStride,
+    }
+  }
+
+  function visit(
+    ctor: LaidOutStruct,
+    name: string,
+    parentLittleEndian: boolean,
+  ): Declaration {
+    const littleEndian = ctor.littleEndian ?? parentLittleEndian
+    const others = visited.get(ctor) ?? []
+    const existing = others.find((d) => d.littleEndian === littleEndian)
+    if (existing) {
+      return existing
+    }
+    if (others.length > 0) {
+      name = `${name}_${littleEndian ? "le" : "be"}`
+    }
+    const { fields = {}, fieldTypes = {}, byteLength } = ctor
+    if (byteLength === undefined) {
+      throw new TypeError(`struct '${name}' has no static byteLength`)
+    }
+    const union = Array.isArray(Reflect.get(ctor, "members"))
+
+    type Item = {
+      readonly byteOffset: number
+      readonly byteLength: number
+      readonly byteAlign: number
+      readonly member: Member
+    }
+    const items: Item[] = []
+    const entries = Object.entries(fields)
+      .filter((entry): entry is [string, FieldLayout] => entry[1] !== undefined)
+      .sort(([, a], [, b]) => a.byteOffset - b.byteOffset)
+    for (const [key, layout] of entries) {
+      const { byteOffset, bitOffset, bitLength } = layout
+      if (bitOffset !== undefined && bitLength !== undefined) {
+        // bitfields in the same container share a member
+        const last = items.at(-1)
+        const container = `u${layout.byteLength * 8}` as NumberType
+        const type = fieldTypes[key]
+        if (
+          typeof type === "object" && "number" in type &&
+          type.littleEndian !== littleEndian
+        ) {
+          throw new TypeError(
+            `bitfield '${key}' of '${name}' is not in the byte order of its struct`,
+          )
+        }
+        const bitfield = {
+          name: key,
+          type: typeof type === "string" && type in NUMBER_SIZES
+            ? type as NumberType
+            : typeof type === "object" && "number" in type
+            ? type.number
+            : container,
+          bitOffset,
+          bitLength,
+        }
+        if (
+          last?.member.kind === "bits" && last.byteOffset === byteOffset &&
+          last.byteLength === layout.byteLength
+        ) {
+          items[items.length - 1] = {
+            ...last,
+            member: {
+              ...last.member,
+              bitfields: [...last.member.bitfields, bitfield],
+            },
+          }
+        } else {
+          items.push({
+            byteOffset,
+            byteLength: layout.byteLength,
+            byteAlign: layout.byteLength,
+            member: {
+              kind: "bits",
+              container,
+              bitfields: [bitfield],
+            },
+          })
+        }
+        continue
+      }
+      const type = fieldTypes[key]
+      const element = type && elementType(type, name, key, littleEndian)
+      items.push({
+        byteOffset,
+        byteLength: layout.byteLength,
+        byteAlign: element ? alignOf(element.type) : 1,
+        member: {
+          kind: "field",
+          name: key,
+          // fields of other types are declared as bytes
+          type: element?.type ?? "u8",
+          length: element ? element.length : layout.byteLength,
+          byteOffset,
+          ...element?.number && { number: element.number },
+        },
+      })
+    }
+
+    // lay out the members as a C compiler would, to see whether padding or packing is needed
+    let packed = false
+    let cursor = 0
+    let byteAlign = 1
+    for (const item of items) {
+      if (union ? item.byteOffset !== 0 : item.byteOffset < cursor) {
+        throw new RangeError(
+          `field at byte ${item.byteOffset} of '${name}' overlaps another field`,
+        )
+      }
+      packed ||= item.byteOffset % item.byteAlign !== 0
+      cursor = union
+        ? Math.max(cursor, item.byteLength)
+        : item.byteOffset + item.byteLength
+      byteAlign = Math.max(byteAlign, item.byteAlign)
+    }
+    packed ||= byteLength % byteAlign !== 0
+    if (packed) {
+      byteAlign = 1
+    }
+
+    const members: Member[] = []
+    let padding = 0
+    cursor = 0
+    for (const item of items) {
+      if (
+        !union && item.byteOffset > alignUp(cursor, packed ? 1 : item.byteAlign)
+      ) {
+        members.push({
+          kind: "padding",
+          name: `_pad${padding++}`,
+          byteLength: item.byteOffset - cursor,
+        })
+      }
+      members.push(item.member)
+      cursor = union
+        ? Math.max(cursor, item.byteLength)
+        : item.byteOffset + item.byteLength
+    }
+    if (byteLength > alignUp(cursor, byteAlign)) {
+      members.push({
+        kind: "padding",
+        name: `_pad${padding++}`,
+        byteLength: union ? byteLength : byteLength - cursor,
+      })
+    }
+
+    const declaration: Declaration = {
+      name,
+      union,
+      packed,
+      byteLength,
+      byteAlign,
+      littleEndian,
+      members,
+    }
+    declarations.push(declaration)
+    visited.set(ctor, [...others, declaration])
+    return declaration
+  }
+
+  visit(root, rootName, true)
+  return declarations
+}
+
+function declarationsOf(ctor: StructConstructor<object>, options: EmitOptions) {
+  return describe(ctor, options.name ?? (ctor.name || "Struct"))
+}
+
+function endianness(number: ForeignNumber) {
+  return number.littleEndian ? "little-endian" : "big-endian"
+}
+
+/**
+ * Bitfields of a container in order, with unnamed gaps between them
+ */
+function bitfieldsWithGaps(bitfields: readonly Bitfield[]) {
+  const result: { name?: string; type?: NumberType; bitLength: number }[] = []
+  let cursor = 0
+  for (
+    const bitfield of [...bitfields].sort((a, b) => a.bitOffset - b.bitOffset)
+  ) {
+    if (bitfield.bitOffset > cursor) {
+      result.push({ bitLength: bitfield.bitOffset - cursor })
+    }
+    result.push(bitfield)
+    cursor = bitfield.bitOffset + bitfield.bitLength
+  }
+  return result
+}
+
+const C_TYPES: Record<NumberType | "bool" | "char", string> = {
+  u8: "uint8_t",
+  i8: "int8_t",
+  u16: "uint16_t",
+  i16: "int16_t",
+  u32: "uint32_t",
+  i32: "int32_t",
+  u64: "uint64_t",
+  i64: "int64_t",
+  f16: "_Float16",
+  f32: "float",
+  f64: "double",
+  bool: "bool",
+  char: "char",
+}
+
+/**
+ * Generate a C header declaring a struct with the same layout as a struct class, and the structs it contains.
+ * Static assertions check the size of each struct and the offset of each field.
+ *
+ * @remarks
+ * Padding is declared explicitly, and structs whose fields are not naturally aligned are declared packed.
+ * Fields whose type is not known, like `variant` or `biguintle` fields, are declared as arrays of bytes.
+ * So are numbers in a fixed byte order other than that of the struct, like `u16be` fields of a little-endian struct,
+ * with a comment giving their type and byte order. Bitfields in such numbers are rejected.
+ * Structs without a byte order of their own are declared in that of the struct containing them.
+ * Fields without a fixed layout, like `dynamic` fields, are left out.
+ *
+ * @param ctor struct class, e.g. from `defineStruct`
+ * @param options name of the struct
+ * @returns C source
+ */
+export function structToC(
+  ctor: StructConstructor<object>,
+  options: EmitOptions = {},
+): string {
+  const lines = [
+    "#include <stdbool.h>",
+    "#include <stddef.h>",
+    "#include <stdint.h>",
+  ]
+  for (const declaration of declarationsOf(ctor, options)) {
+    const { name } = declaration
+    const keyword = declaration.union ? "union" : "struct"
+    lines.push("")
+    if (!declaration.littleEndian) {
+      lines.push("/* fields are big-endian */")
+    }
+    lines.push(
+      `typedef ${keyword}${
+        declaration.packed ? " __attribute__((packed))" : ""
+      } ${name} {`,
+    )
+    const asserts = [
+      `_Static_assert(sizeof(${name}) == ${declaration.byteLength}, "size of ${name}");`,
+    ]
+    for (const member of declaration.members) {
+      if (member.kind === "bits") {
+        for (
+          const { name, type, bitLength } of bitfieldsWithGaps(member.bitfields)
+        ) {
+          lines.push(
+            `  ${C_TYPES[type ?? member.container]}${
+              name ? ` ${name}` : ""
+            } : ${bitLength};`,
+          )
+        }
+      } else if (member.kind === "padding") {
+        lines.push(`  uint8_t ${member.name}[${member.byteLength}];`)
+      } else {
+        const type = typeof member.type === "object"
+          ? member.type.name
+          : C_TYPES[member.type]
+        const length = member.length === undefined ? "" : `[${member.length}]`
+        const note = member.number
+          ? ` /* ${endianness(member.number)} ${C_TYPES[member.number.type]} */`
+          : ""
+        lines.push(`  ${type} ${member.name}${length};${note}`)
+        asserts.push(
+          `_Static_assert(offsetof(${name}, ${member.name}) == ${member.byteOffset}, "offset of ${name}.${member.name}");`,
+        )
+      }
+    }
+    lines.push(`} ${name};`, ...asserts)
+  }
+  return lines.join("\n") + "\n"
+}
+
+const RUST_TYPES: Record<NumberType | "bool" | "char", string> = {
+  u8: "u8",
+  i8: "i8",
+  u16: "u16",
+  i16: "i16",
+  u32: "u32",
+  i32: "i32",
+  u64: "u64",
+  i64: "i64",
+  // half-precision floats are not stable in Rust
+  f16: "u16",
+  f32: "f32",
+  f64: "f64",
+  bool: "bool",
+  char: "u8",
+}
+
+/**
+ * Generate Rust `#[repr(C)]` declarations with the same layout as a struct class, and the structs it contains.
+ * Constant assertions check the size of each struct and the offset of each field.
+ *
+ * @remarks
+ * Rust has no bitfields, so bitfields sharing an integer are declared as that integer, named after them.
+ * Half-precision floats are declared as `u16`.
+ * Otherwise as for `structToC`.
+ *
+ * @param ctor struct class, e.g. from `defineStruct`
+ * @param options name of the struct
+ * @returns Rust source
+ */
+export function structToRust(
+  ctor: StructConstructor<object>,
+  options: EmitOptions = {},
+): string {
+  const lines: string[] = []
+  for (const declaration of declarationsOf(ctor, options)) {
+    const { name } = declaration
+    if (lines.length > 0) {
+      lines.push("")
+    }
+    if (!declaration.littleEndian) {
+      lines.push("// fields are big-endian")
+    }
+    lines.push(
+      declaration.packed ? "#[repr(C, packed)]" : "#[repr(C)]",
+      "#[derive(Clone, Copy)]",
+      `pub ${declaration.union ? "union" : "struct"} ${name} {`,
+    )
+    const asserts = [
+      `const _: () = assert!(core::mem::size_of::<${name}>() == ${declaration.byteLength});`,
+    ]
+    for (const member of declaration.members) {
+      if (member.kind === "bits") {
+        const bits = member.bitfields.map(({ name, bitOffset, bitLength }) =>
+          `${name}: bits ${bitOffset}..${bitOffset + bitLength}`
+        )
+        lines.push(
+          `    /// ${bits.join(", ")}`,
+          `    pub ${member.bitfields.map((b) => b.name).join("_")}: ${
+            RUST_TYPES[member.container]
+          },`,
+        )
+      } else if (member.kind === "padding") {
+        lines.push(`    pub ${member.name}: [u8; ${member.byteLength}],`)
+      } else {
+        const item = typeof member.type === "object"
+          ? member.type.name
+          : RUST_TYPES[member.type]
+        const type = member.length === undefined
+          ? item
+          : `[${item}; ${member.length}]`
+        if (member.number) {
+          lines.push(
+            `    /// ${endianness(member.number)} ${
+              RUST_TYPES[member.number.type]
+            }`,
+          )
+        }
+        lines.push(`    pub ${member.name}: ${type},`)
+        asserts.push(
+          `const _: () = assert!(core::mem::offset_of!(${name}, ${member.name}) == ${member.byteOffset});`,
+        )
+      }
+    }
+    lines.push("}", ...asserts)
+  }
+  return lines.join("\n") + "\n"
+}
+
+const PYTHON_TYPES: Record<NumberType | "bool" | "char", string> = {
+  u8: "ctypes.c_uint8",
+  i8: "ctypes.c_int8",
+  u16: "ctypes.c_uint16",
+  i16: "ctypes.c_int16",
+  u32: "ctypes.c_uint32",
+  i32: "ctypes.c_int32",
+  u64: "ctypes.c_uint64",
+  i64: "ctypes.c_int64",
+  // ctypes has no half-precision float
+  f16: "ctypes.c_uint16",
+  f32: "ctypes.c_float",
+  f64: "ctypes.c_double",
+  bool: "ctypes.c_bool",
+  char: "ctypes.c_char",
+}
+
+/**
+ * Generate Python `ctypes` classes with the same layout as a struct class, and the structs it contains.
+ * Assertions check the size of each struct and the offset of each field.
+ *
+ * @remarks
+ * Big-endian structs derive from `ctypes.BigEndianStructure` or `ctypes.BigEndianUnion`.
+ * Half-precision floats are declared as `ctypes.c_uint16`.
+ * Otherwise as for `structToC`.
+ *
+ * @param ctor struct class, e.g. from `defineStruct`
+ * @param options name of the struct
+ * @returns Python source
+ */
+export function structToPython(
+  ctor: StructConstructor<object>,
+  options: EmitOptions = {},
+): string {
+  const lines = ["import ctypes"]
+  for (const declaration of declarationsOf(ctor, options)) {
+    const { name } = declaration
+    const base = `ctypes.${declaration.littleEndian ? "" : "BigEndian"}${
+      declaration.union ? "Union" : "Structure"
+    }`
+    lines.push("", "", `class ${name}(${base}):`)
+    if (declaration.packed) {
+      lines.push("    _pack_ = 1")
+    }
+    lines.push("    _fields_ = [")
+    const asserts = [
+      `assert ctypes.sizeof(${name}) == ${declaration.byteLength}`,
+    ]
+    let gaps = 0
+    for (const member of declaration.members) {
+      if (member.kind === "bits") {
+        for (
+          const { name, type, bitLength } of bitfieldsWithGaps(member.bitfields)
+        ) {
+          lines.push(
+            `        ("${name ?? `_bits${gaps++}`}", ${
+              PYTHON_TYPES[type ?? member.container]
+            }, ${bitLength}),`,
+          )
+        }
+      } else if (member.kind === "padding") {
+        lines.push(
+          `        ("${member.name}", ctypes.c_uint8 * ${member.byteLength}),`,
+        )
+      } else {
+        const item = typeof member.type === "object"
+          ? member.type.name
+          : PYTHON_TYPES[member.type]
+        const type = member.length === undefined
+          ? item
+          : `${item} * ${member.length}`
+        const note = member.number
+          ? `  # ${endianness(member.number)} ${
+            PYTHON_TYPES[member.number.type]
+          }`
+          : ""
+        lines.push(`        ("${member.name}", ${type}),${note}`)
+        asserts.push(
+          `assert ${name}.${member.name}.offset == ${member.byteOffset}`,
+        )
+      }
+    }
+    lines.push("    ]", "", ...asserts)
+  }
+  return lines.join("\n") + "\n"
+}
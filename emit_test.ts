@@ -0,0 +1,175 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "@std/assert"
+import { structToC, structToPython, structToRust } from "./emit.ts"
+import { defineArray, defineStruct } from "./core.ts"
+import {
+  bool,
+  f64,
+  ibits,
+  string,
+  substruct,
+  u16,
+  u16be,
+  u32,
+  u8,
+  ubits,
+} from "./fields.ts"
+import { defineUnion } from "./union.ts"
+
+class Point extends defineStruct({ x: f64(0), y: f64(8) }) {}
+class Points extends defineArray({ struct: Point, length: 2 }) {}
+class Header extends defineStruct({
+  tag: u8(0),
+  flags: u16(2),
+  low: ibits(4, { bitOffset: 0, bitLength: 3 }),
+  high: ibits(4, { bitOffset: 5, bitLength: 2 }),
+  name: string(8, 5),
+  ok: bool(13),
+  origin: substruct(Point, 16),
+  points: substruct(Points, 32),
+  end: u32(64),
+}, { byteLength: 72 }) {}
+
+Deno.test("structToC", () => {
+  assertEquals(
+    structToC(Header, { name: "header_t" }),
+    `#include <stdbool.h>
+#include <stddef.h>
+#include <stdint.h>
+
+typedef struct Point {
+  double x;
+  double y;
+} Point;
+_Static_assert(sizeof(Point) == 16, "size of Point");
+_Static_assert(offsetof(Point, x) == 0, "offset of Point.x");
+_Static_assert(offsetof(Point, y) == 8, "offset of Point.y");
+
+typedef struct header_t {
+  uint8_t tag;
+  uint16_t flags;
+  int8_t low : 3;
+  uint8_t : 2;
+  int8_t high : 2;
+  uint8_t _pad0[3];
+  char name[5];
+  bool ok;
+  Point origin;
+  Point points[2];
+  uint32_t end;
+} header_t;
+_Static_assert(sizeof(header_t) == 72, "size of header_t");
+_Static_assert(offsetof(header_t, tag) == 0, "offset of header_t.tag");
+_Static_assert(offsetof(header_t, flags) == 2, "offset of header_t.flags");
+_Static_assert(offsetof(header_t, name) == 8, "offset of header_t.name");
+_Static_assert(offsetof(header_t, ok) == 13, "offset of header_t.ok");
+_Static_assert(offsetof(header_t, origin) == 16, "offset of header_t.origin");
+_Static_assert(offsetof(header_t, points) == 32, "offset of header_t.points");
+_Static_assert(offsetof(header_t, end) == 64, "offset of header_t.end");
+`,
+  )
+})
+
+Deno.test("structToRust and structToPython", () => {
+  class Packed extends defineStruct({ a: u8(0), b: u32(1) }, {
+    littleEndian: false,
+  }) {}
+  class Value extends defineUnion({ i: u32(0), p: Packed }) {}
+
+  const rust = structToRust(Value)
+  assertStringIncludes(rust, "// fields are big-endian\n#[repr(C, packed)]")
+  assertStringIncludes(
+    rust,
+    "pub union Value {\n    pub i: u32,\n    pub p: Packed,\n}",
+  )
+  assertStringIncludes(
+    rust,
+    "const _: () = assert!(core::mem::size_of::<Value>() == 5);",
+  )
+  assertStringIncludes(
+    structToRust(Header),
+    "/// low: bits 0..3, high: bits 5..7\n    pub low_high: u8,",
+  )
+
+  const python = structToPython(Value)
+  assertStringIncludes(
+    python,
+    `class Packed(ctypes.BigEndianStructure):
+    _pack_ = 1
+    _fields_ = [
+        ("a", ctypes.c_uint8),
+        ("b", ctypes.c_uint32),
+    ]
+
+assert ctypes.sizeof(Packed) == 5
+assert Packed.a.offset == 0
+assert Packed.b.offset == 1`,
+  )
+  assertStringIncludes(python, "class Value(ctypes.Union):")
+  assertStringIncludes(structToPython(Header), '("points", Point * 2),')
+})
+
+Deno.test("emit overlapping fields", () => {
+  class Overlapping extends defineStruct({ a: u32(0), b: u16(2) }) {}
+  assertThrows(() => structToC(Overlapping), RangeError)
+})
+
+Deno.test("emit mixed byte order", () => {
+  class Mixed extends defineStruct({
+    le: u16(0),
+    be: u16be(2),
+    name: string(4, 4, { encoding: "utf-16be" }),
+    bits: ubits(8, { bitOffset: 0, bitLength: 4, byteLength: 2 }),
+  }) {}
+  const c = structToC(Mixed)
+  assertStringIncludes(
+    c,
+    "  uint16_t le;\n  uint8_t be[2]; /* big-endian uint16_t */\n  uint8_t name[4]; /* big-endian uint16_t */",
+  )
+  assertStringIncludes(
+    structToRust(Mixed),
+    "    /// big-endian u16\n    pub be: [u8; 2],",
+  )
+  assertStringIncludes(
+    structToPython(Mixed),
+    '("be", ctypes.c_uint8 * 2),  # big-endian ctypes.c_uint16',
+  )
+
+  // in a big-endian struct, the same fields are declared as numbers
+  class Big extends defineStruct({
+    be: u16be(0),
+    name: string(2, 4, { encoding: "utf-16be" }),
+  }, { littleEndian: false }) {}
+  assertStringIncludes(structToC(Big), "  uint16_t be;\n  uint16_t name[2];")
+
+  class Swapped extends defineStruct({
+    bits: ubits(0, {
+      bitOffset: 0,
+      bitLength: 4,
+      byteLength: 2,
+      littleEndian: false,
+    }),
+  }) {}
+  assertThrows(() => structToC(Swapped), TypeError)
+})
+
+Deno.test("emit nested struct in the byte order of its parent", () => {
+  class Inner extends defineStruct({ x: u16(0) }) {}
+  class Outer extends defineStruct({
+    a: substruct(Inner, 0),
+    be: u16be(2),
+  }, { littleEndian: false }) {}
+  const python = structToPython(Outer)
+  assertStringIncludes(python, "class Inner(ctypes.BigEndianStructure):")
+  assertStringIncludes(python, "class Outer(ctypes.BigEndianStructure):")
+  assertStringIncludes(structToC(Outer), "  uint16_t be;")
+
+  // used in both byte orders, it is declared once for each
+  class Both extends defineStruct({
+    big: substruct(Outer, 0),
+    little: substruct(Inner, 4),
+  }) {}
+  const c = structToC(Both)
+  assertStringIncludes(c, "} Inner;")
+  assertStringIncludes(c, "} Inner_le;")
+  assertStringIncludes(c, "  Inner_le little;")
+})
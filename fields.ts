@@ -3,12 +3,125 @@
  * @module
  */
 
-import { fromDataView, structBytes, structDataView } from "./core.ts"
+import {
+  dataViewSymbol,
+  Struct,
+  structBytes,
+  structDataView,
+  structLittleEndian,
+} from "./core.ts"
+import { Atomic, type AtomicType, atomicTypeByteLength } from "./atomic.ts"
+import {
+  FieldArray,
+  NumberArray,
+  type NumberType,
+  numberTypeByteLength,
+  type NumberTypeValue,
+} from "./arrays.ts"
 import type {
+  AnyStruct,
+  FieldAccess,
+  FieldLayout,
+  FieldType,
+  JsonSchema,
   StructConstructor,
   StructPropertyDescriptor,
   TypedArraySpecies,
 } from "./types.ts"
+import { writeInto } from "./write.ts"
+
+/**
+ * Layout of a field at a fixed offset, aligned to its own size unless otherwise specified
+ */
+function fieldLayout(
+  byteOffset: number,
+  byteLength: number,
+  byteAlign: number = byteLength,
+): FieldLayout {
+  return { byteOffset, byteLength, byteAlign }
+}
+
+/**
+ * Schema for an integer in the given range
+ */
+function integerSchema(minimum: number, maximum: number): JsonSchema {
+  return { type: "integer", minimum, maximum }
+}
+
+/** Schema for an unsigned bigint, which is a decimal string in JSON */
+const UNSIGNED_BIGINT_SCHEMA: JsonSchema = {
+  type: "string",
+  pattern: "^[0-9]+$",
+}
+
+/** Schema for a signed bigint, which is a decimal string in JSON */
+const SIGNED_BIGINT_SCHEMA: JsonSchema = {
+  type: "string",
+  pattern: "^-?[0-9]+$",
+}
+
+const NUMBER_SCHEMA: JsonSchema = { type: "number" }
+
+const NUMBER_TYPE_SCHEMAS: Record<NumberType, JsonSchema> = {
+  u8: integerSchema(0, 0xff),
+  i8: integerSchema(-0x80, 0x7f),
+  u16: integerSchema(0, 0xffff),
+  i16: integerSchema(-0x8000, 0x7fff),
+  u32: integerSchema(0, 0xffffffff),
+  i32: integerSchema(-0x80000000, 0x7fffffff),
+  u64: UNSIGNED_BIGINT_SCHEMA,
+  i64: SIGNED_BIGINT_SCHEMA,
+  f16: NUMBER_SCHEMA,
+  f32: NUMBER_SCHEMA,
+  f64: NUMBER_SCHEMA,
+}
+
+/**
+ * A number which may depend on the struct instance:
+ * a constant, the name of another property holding the number, or a function of the instance.
+ * `S` describes the properties of the instance used by the function
+ */
+export type DynamicValue<S = Record<string, unknown>> =
+  | number
+  | (keyof S & string)
+  | ((struct: S) => number | bigint)
+
+/**
+ * Evaluate a dynamic value for the given struct instance
+ * @param struct the struct instance
+ * @param value constant, property name, or function of the instance
+ * @returns the value as a non-negative integer
+ */
+export function resolveDynamic<S>(
+  struct: AnyStruct,
+  value: DynamicValue<S>,
+): number {
+  let result
+  if (typeof value === "function") {
+    result = value(struct as S)
+  } else if (typeof value === "string") {
+    result = Reflect.get(struct, value)
+  } else {
+    result = value
+  }
+  result = Number(result)
+  if (!(Number.isSafeInteger(result) && result >= 0)) {
+    throw new RangeError(`expected a non-negative integer but got ${result}`)
+  }
+  return result
+}
+
+/**
+ * Type of a number which is in the given byte order, or in the byte order of the struct if none is given
+ */
+function fixedOrder(
+  type: NumberType,
+  littleEndian: boolean | undefined,
+): FieldType {
+  return littleEndian === undefined || numberTypeByteLength(type) === 1
+    ? type
+    : { number: type, littleEndian }
+}
 
 /**
  * Field for a 8-bit unsigned integer
@@ -16,6 +129,10 @@ import type {
 export function u8(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u8,
+    type: "u8",
+    primitive: { type: "u8" },
+    layout: fieldLayout(fieldOffset, 1),
     get() {
       return structDataView(this).getUint8(fieldOffset)
     },
@@ -25,44 +142,77 @@ export function u8(fieldOffset: number): StructPropertyDescriptor<number> {
   }
 }
 /**
- * Field for a little-endian 16-bit unsigned integer
+ * Field for a 16-bit unsigned integer in the byte order of the struct (little-endian by default)
  */
 export function u16(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u16,
+    type: "u16",
+    primitive: { type: "u16" },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
-      return structDataView(this).getUint16(fieldOffset, true)
+      return structDataView(this).getUint16(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setUint16(fieldOffset, value, true)
+      structDataView(this).setUint16(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 /**
- * Field for a little-endian 32-bit unsigned integer
+ * Field for a 32-bit unsigned integer in the byte order of the struct (little-endian by default)
  */
 export function u32(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u32,
+    type: "u32",
+    primitive: { type: "u32" },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
-      return structDataView(this).getUint32(fieldOffset, true)
+      return structDataView(this).getUint32(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setUint32(fieldOffset, value, true)
+      structDataView(this).setUint32(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 /**
- * Field for a little-endian 64-bit unsigned integer
+ * Field for a 64-bit unsigned integer in the byte order of the struct (little-endian by default)
  */
 export function u64(fieldOffset: number): StructPropertyDescriptor<bigint> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u64,
+    type: "u64",
+    primitive: { type: "u64" },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
-      return structDataView(this).getBigUint64(fieldOffset, true)
+      return structDataView(this).getBigUint64(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setBigUint64(fieldOffset, value, true)
+      structDataView(this).setBigUint64(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
@@ -72,6 +222,10 @@ export function u64(fieldOffset: number): StructPropertyDescriptor<bigint> {
 export function i8(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i8,
+    type: "i8",
+    primitive: { type: "i8" },
+    layout: fieldLayout(fieldOffset, 1),
     get() {
       return structDataView(this).getInt8(fieldOffset)
     },
@@ -81,44 +235,77 @@ export function i8(fieldOffset: number): StructPropertyDescriptor<number> {
   }
 }
 /**
- * Field for a little-endian 16-bit signed integer
+ * Field for a 16-bit signed integer in the byte order of the struct (little-endian by default)
  */
 export function i16(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i16,
+    type: "i16",
+    primitive: { type: "i16" },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
-      return structDataView(this).getInt16(fieldOffset, true)
+      return structDataView(this).getInt16(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setInt16(fieldOffset, value, true)
+      structDataView(this).setInt16(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 /**
- * Field for a little-endian 32-bit signed integer
+ * Field for a 32-bit signed integer in the byte order of the struct (little-endian by default)
  */
 export function i32(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i32,
+    type: "i32",
+    primitive: { type: "i32" },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
-      return structDataView(this).getInt32(fieldOffset, true)
+      return structDataView(this).getInt32(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setInt32(fieldOffset, value, true)
+      structDataView(this).setInt32(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 /**
- * Field for a little-endian 64-bit signed integer
+ * Field for a 64-bit signed integer in the byte order of the struct (little-endian by default)
  */
 export function i64(fieldOffset: number): StructPropertyDescriptor<bigint> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i64,
+    type: "i64",
+    primitive: { type: "i64" },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
-      return structDataView(this).getBigInt64(fieldOffset, true)
+      return structDataView(this).getBigInt64(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setBigInt64(fieldOffset, value, true)
+      structDataView(this).setBigInt64(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
@@ -137,6 +324,8 @@ export function biguintle(
     throw new TypeError("byteLength must be a positive integer")
   }
   return {
+    schema: UNSIGNED_BIGINT_SCHEMA,
+    layout: fieldLayout(fieldOffset, byteLength, 1),
     get() {
       let result = 0n
       const dv = structDataView(this)
@@ -166,6 +355,8 @@ export function bigintle(
 ): StructPropertyDescriptor<bigint> {
   const { byteLength } = options
   return {
+    schema: SIGNED_BIGINT_SCHEMA,
+    layout: fieldLayout(offset, byteLength, 1),
     get() {
       let result = 0n
       const dv = structDataView(this)
@@ -187,7 +378,162 @@ export function bigintle(
 }
 
 /**
- * Field for a little-endian 16-bit binary float (float16_t)
+ * Field for a big-endian unsigned integer of arbitrary byte length
+ */
+export function biguintbe(
+  fieldOffset: number,
+  { byteLength }: { byteLength: number },
+): StructPropertyDescriptor<bigint> {
+  if (
+    !Number.isInteger(byteLength) ||
+    !(0 < byteLength)
+  ) {
+    throw new TypeError("byteLength must be a positive integer")
+  }
+  return {
+    schema: UNSIGNED_BIGINT_SCHEMA,
+    layout: fieldLayout(fieldOffset, byteLength, 1),
+    get() {
+      let result = 0n
+      const dv = structDataView(this)
+      for (let i = 0; i < byteLength; ++i) {
+        result = (result << 8n) | BigInt(dv.getUint8(fieldOffset + i))
+      }
+      return result
+    },
+    set(value) {
+      const dv = structDataView(this)
+      for (let i = 0; i < byteLength; ++i) {
+        dv.setUint8(
+          fieldOffset + byteLength - 1 - i,
+          Number((value >> BigInt(8 * i)) & 0xffn),
+        )
+      }
+    },
+  }
+}
+
+/**
+ * Field for a big-endian signed integer of arbitrary byte length
+ */
+export function bigintbe(
+  fieldOffset: number,
+  options: { byteLength: number },
+): StructPropertyDescriptor<bigint> {
+  const unsigned = biguintbe(fieldOffset, options)
+  const bits = options.byteLength * 8
+  return {
+    ...unsigned,
+    schema: SIGNED_BIGINT_SCHEMA,
+    get() {
+      let result = 0n
+      const dv = structDataView(this)
+      for (let i = 0; i < options.byteLength; ++i) {
+        result = (result << 8n) | BigInt(dv.getUint8(fieldOffset + i))
+      }
+      return BigInt.asIntN(bits, result)
+    },
+  }
+}
+
+/**
+ * Check the byte length of an integer which is small enough to be represented exactly as a number
+ */
+function checkSafeByteLength(byteLength: number) {
+  if (
+    !Number.isInteger(byteLength) ||
+    !(0 < byteLength && byteLength <= 6)
+  ) {
+    throw new TypeError("byteLength must be an integer from 1 to 6")
+  }
+}
+
+/**
+ * Descriptor for an integer of up to 6 bytes, read and written as a number
+ */
+function smallInt(
+  fieldOffset: number,
+  byteLength: number,
+  littleEndian: boolean,
+  signed: boolean,
+): StructPropertyDescriptor<number> {
+  checkSafeByteLength(byteLength)
+  const range = 2 ** (8 * byteLength)
+  // offset of the byte with the given significance
+  const byteAt = littleEndian
+    ? (i: number) => fieldOffset + i
+    : (i: number) => fieldOffset + byteLength - 1 - i
+  return {
+    enumerable: true,
+    schema: signed
+      ? integerSchema(-range / 2, range / 2 - 1)
+      : integerSchema(0, range - 1),
+    layout: fieldLayout(fieldOffset, byteLength, 1),
+    get() {
+      const dv = structDataView(this)
+      let result = 0
+      for (let i = byteLength - 1; i >= 0; --i) {
+        result = result * 256 + dv.getUint8(byteAt(i))
+      }
+      if (signed && result >= range / 2) {
+        result -= range
+      }
+      return result
+    },
+    set(value) {
+      const dv = structDataView(this)
+      // wrap out-of-range values, like DataView does
+      let rest = ((Math.trunc(value) % range) + range) % range
+      for (let i = 0; i < byteLength; ++i) {
+        dv.setUint8(byteAt(i), rest % 256)
+        rest = Math.floor(rest / 256)
+      }
+    },
+  }
+}
+
+/**
+ * Field for a little-endian unsigned integer of 1 to 6 bytes, as a number
+ */
+export function uintle(
+  fieldOffset: number,
+  { byteLength }: { byteLength: number },
+): StructPropertyDescriptor<number> {
+  return smallInt(fieldOffset, byteLength, true, false)
+}
+
+/**
+ * Field for a big-endian unsigned integer of 1 to 6 bytes, as a number
+ */
+export function uintbe(
+  fieldOffset: number,
+  { byteLength }: { byteLength: number },
+): StructPropertyDescriptor<number> {
+  return smallInt(fieldOffset, byteLength, false, false)
+}
+
+/**
+ * Field for a little-endian signed integer of 1 to 6 bytes, as a number
+ */
+export function intle(
+  fieldOffset: number,
+  { byteLength }: { byteLength: number },
+): StructPropertyDescriptor<number> {
+  return smallInt(fieldOffset, byteLength, true, true)
+}
+
+/**
+ * Field for a big-endian signed integer of 1 to 6 bytes, as a number
+ */
+export function intbe(
+  fieldOffset: number,
+  { byteLength }: { byteLength: number },
+): StructPropertyDescriptor<number> {
+  return smallInt(fieldOffset, byteLength, false, true)
+}
+
+/**
+ * Field for a 16-bit binary float (float16_t) in the byte order of the struct (little-endian by default)
  */
 export function f16(fieldOffset: number): StructPropertyDescriptor<number> {
   if (
@@ -198,71 +544,389 @@ export function f16(fieldOffset: number): StructPropertyDescriptor<number> {
   }
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f16,
+    type: "f16",
+    primitive: { type: "f16" },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
-      return structDataView(this).getFloat16(fieldOffset, true)
+      return structDataView(this).getFloat16(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setFloat16(fieldOffset, value, true)
+      structDataView(this).setFloat16(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 
 /**
- * Field for a little-endian 32-bit binary float (float32_t)
+ * Field for a 32-bit binary float (float32_t) in the byte order of the struct (little-endian by default)
  */
 export function f32(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f32,
+    type: "f32",
+    primitive: { type: "f32" },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
-      return structDataView(this).getFloat32(fieldOffset, true)
+      return structDataView(this).getFloat32(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setFloat32(fieldOffset, value, true)
+      structDataView(this).setFloat32(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
     },
   }
 }
 
 /**
- * Field for a little-endian 64-bit binary float (float64_t)
+ * Field for a 64-bit binary float (float64_t) in the byte order of the struct (little-endian by default)
  */
 export function f64(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f64,
+    type: "f64",
+    primitive: { type: "f64" },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
-      return structDataView(this).getFloat64(fieldOffset, true)
+      return structDataView(this).getFloat64(
+        fieldOffset,
+        structLittleEndian(this),
+      )
     },
     set(value) {
-      structDataView(this).setFloat64(fieldOffset, value, true)
+      structDataView(this).setFloat64(
+        fieldOffset,
+        value,
+        structLittleEndian(this),
+      )
+    },
+  }
+}
+
+/**
+ * How the end of a string is marked within its field
+ * - `"null-padded"`: bytes after the string are zero
+ * - `"null-terminated"`: the string ends at the first zero character, like a C string. Bytes after it are ignored
+ * - `"space-padded"`: bytes after the string are spaces
+ * - `"length-prefixed"`: the number of bytes in the string precedes it, like a Pascal string
+ */
+export type StringFormat =
+  | "null-padded"
+  | "null-terminated"
+  | "space-padded"
+  | "length-prefixed"
+
+/**
+ * Character encoding of a string field
+ * - `"utf-8"`
+ * - `"ascii"`: one byte per character, up to U+007F
+ * - `"latin1"`: one byte per character, up to U+00FF (ISO-8859-1)
+ * - `"utf-16le"`, `"utf-16be"`: two bytes per code unit, as in Windows and Java
+ */
+export type StringEncoding =
+  | "utf-8"
+  | "ascii"
+  | "latin1"
+  | "utf-16le"
+  | "utf-16be"
+
+/**
+ * Options for a string field
+ */
+export type StringOptions = {
+  /** character encoding. Defaults to `"utf-8"` */
+  readonly encoding?: StringEncoding
+  /** throw a `TypeError` on reading bytes which are not valid in the encoding or writing characters which it cannot represent, instead of replacing them */
+  readonly strict?: boolean
+  /** how the end of the string is marked. Defaults to `"null-padded"` */
+  readonly format?: StringFormat
+  /** size in bytes of the length of a `"length-prefixed"` string. Defaults to 1 */
+  readonly prefixLength?: 1 | 2 | 4
+  /** byte order of the length of a `"length-prefixed"` string. Defaults to the byte order of the struct */
+  readonly littleEndian?: boolean
+  /** what to do when writing a string too long for the field: drop the characters which do not fit (the default), or throw a `RangeError` */
+  readonly overflow?: "truncate" | "throw"
+}
+
+/**
+ * Conversion between strings and bytes in some encoding
+ */
+type StringCodec = {
+  /** size in bytes of a code unit */
+  readonly unitLength: 1 | 2
+  encode(value: string): Uint8Array
+  decode(bytes: Uint8Array): string
+  /** number of leading bytes of encoded text which fit within `capacity` bytes without splitting a character */
+  fit(encoded: Uint8Array, capacity: number): number
+}
+
+const LONE_SURROGATE = /\p{Surrogate}/u
+
+function unencodable(char: string, encoding: StringEncoding): TypeError {
+  const codePoint = char.codePointAt(0)!.toString(16).toUpperCase()
+  return new TypeError(
+    `character U+${
+      codePoint.padStart(4, "0")
+    } cannot be encoded as ${encoding}`,
+  )
+}
+
+function utf8Codec(strict: boolean): StringCodec {
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder("utf-8", { fatal: strict })
+  return {
+    unitLength: 1,
+    encode(value) {
+      const match = strict && LONE_SURROGATE.exec(value)
+      if (match) {
+        throw unencodable(match[0], "utf-8")
+      }
+      return encoder.encode(value)
+    },
+    decode: (bytes) => decoder.decode(bytes),
+    fit(encoded, capacity) {
+      let end = Math.min(encoded.length, capacity)
+      // back up over continuation bytes
+      while (
+        end < encoded.length && end > 0 && (encoded[end] & 0xc0) === 0x80
+      ) {
+        --end
+      }
+      return end
+    },
+  }
+}
+
+function singleByteCodec(
+  encoding: "ascii" | "latin1",
+  strict: boolean,
+): StringCodec {
+  const max = encoding === "ascii" ? 0x7f : 0xff
+  return {
+    unitLength: 1,
+    encode(value) {
+      const result: number[] = []
+      for (const char of value) {
+        const codePoint = char.codePointAt(0)!
+        if (codePoint <= max) {
+          result.push(codePoint)
+        } else if (strict) {
+          throw unencodable(char, encoding)
+        } else {
+          result.push(0x3f) // "?"
+        }
+      }
+      return Uint8Array.from(result)
+    },
+    decode(bytes) {
+      let result = ""
+      for (const byte of bytes) {
+        if (byte <= max) {
+          result += String.fromCharCode(byte)
+        } else if (strict) {
+          throw new TypeError(
+            `byte 0x${byte.toString(16)} is not valid ${encoding}`,
+          )
+        } else {
+          result += "\ufffd"
+        }
+      }
+      return result
+    },
+    fit: (encoded, capacity) => Math.min(encoded.length, capacity),
+  }
+}
+
+function utf16Codec(
+  encoding: "utf-16le" | "utf-16be",
+  strict: boolean,
+): StringCodec {
+  const littleEndian = encoding === "utf-16le"
+  const decoder = new TextDecoder(encoding, { fatal: strict })
+  return {
+    unitLength: 2,
+    encode(value) {
+      const match = strict && LONE_SURROGATE.exec(value)
+      if (match) {
+        throw unencodable(match[0], encoding)
+      }
+      const result = new Uint8Array(value.length * 2)
+      const dv = new DataView(result.buffer)
+      for (let i = 0; i < value.length; ++i) {
+        dv.setUint16(i * 2, value.charCodeAt(i), littleEndian)
+      }
+      return result
     },
+    // ignore an odd byte at the end
+    decode: (bytes) => decoder.decode(bytes.subarray(0, bytes.length & ~1)),
+    fit(encoded, capacity) {
+      let end = Math.min(encoded.length, capacity) & ~1
+      if (end < encoded.length && end > 0) {
+        // do not split a surrogate pair
+        const dv = new DataView(encoded.buffer, encoded.byteOffset)
+        const last = dv.getUint16(end - 2, littleEndian)
+        if (last >= 0xd800 && last < 0xdc00) {
+          end -= 2
+        }
+      }
+      return end
+    },
+  }
+}
+
+function stringCodec(encoding: StringEncoding, strict: boolean): StringCodec {
+  switch (encoding) {
+    case "utf-8":
+      return utf8Codec(strict)
+    case "ascii":
+    case "latin1":
+      return singleByteCodec(encoding, strict)
+    case "utf-16le":
+    case "utf-16be":
+      return utf16Codec(encoding, strict)
+    default:
+      throw new TypeError(`unknown encoding ${encoding}`)
   }
 }
 
 /**
- * Field for a UTF-8 fixed-length string
+ * Field for a string in a fixed number of bytes.
+ * By default, the string is UTF-8, padded with zero bytes which are trimmed when reading,
+ * and a string too long for the field is truncated.
+ *
+ * @example
+ * ```ts
+ * name: string(0, 16, { format: "null-terminated" }),
+ * label: string(16, 33, { format: "length-prefixed" }), // up to 32 bytes
+ * path: string(49, 520, { encoding: "utf-16le", format: "null-terminated" }),
+ * ```
+ * @param fieldOffset offset of the field
+ * @param byteLength size in bytes of the field, including any terminator or length prefix
+ * @param options encoding, how the end of the string is marked, and what to do with a string which does not fit
  */
 export function string(
   fieldOffset: number,
   byteLength: number,
+  options: StringOptions = {},
 ): StructPropertyDescriptor<string> {
-  const TEXT_DECODER = new TextDecoder()
-  const TEXT_ENCODER = new TextEncoder()
+  const {
+    encoding = "utf-8",
+    strict = false,
+    format = "null-padded",
+    prefixLength = 1,
+    overflow = "truncate",
+  } = options
+  const codec = stringCodec(encoding, strict)
+  const { unitLength } = codec
+  // room for the string itself
+  const start = format === "length-prefixed" ? prefixLength : 0
+  const capacity = format === "length-prefixed"
+    ? Math.min(byteLength - prefixLength, 2 ** (8 * prefixLength) - 1)
+    : format === "null-terminated"
+    ? byteLength - unitLength
+    : byteLength
+  if (capacity < 0) {
+    throw new RangeError(`string field of ${byteLength} bytes has no room`)
+  }
+  const padding = new Uint8Array(byteLength)
+  if (format === "space-padded") {
+    padding.set(codec.encode(" ".repeat(Math.floor(byteLength / unitLength))))
+  }
+  const access: FieldAccess<string> = {
+    read(dv, byteOffset, littleEndian) {
+      const offset = byteOffset + fieldOffset
+      const bytes = new Uint8Array(
+        dv.buffer,
+        dv.byteOffset + offset,
+        byteLength,
+      )
+      switch (format) {
+        case "null-padded":
+          // trim all trailing null characters
+          return codec.decode(bytes).replace(/\0+$/, "")
+        case "null-terminated": {
+          let end = 0
+          while (
+            end + unitLength <= byteLength &&
+            bytes.subarray(end, end + unitLength).some((b) => b !== 0)
+          ) {
+            end += unitLength
+          }
+          return codec.decode(bytes.subarray(0, end))
+        }
+        case "space-padded":
+          return codec.decode(bytes).replace(/ +$/, "")
+        case "length-prefixed": {
+          const length = getContainer(
+            dv,
+            offset,
+            prefixLength,
+            options.littleEndian ?? littleEndian,
+          )
+          return codec.decode(
+            bytes.subarray(start, start + Math.min(length, capacity)),
+          )
+        }
+      }
+    },
+    write(dv, byteOffset, value, littleEndian) {
+      const offset = byteOffset + fieldOffset
+      const encoded = codec.encode(value)
+      if (encoded.length > capacity && overflow === "throw") {
+        throw new RangeError(
+          `string of ${encoded.length} bytes does not fit in ${capacity} bytes`,
+        )
+      }
+      const length = codec.fit(encoded, capacity)
+      const bytes = new Uint8Array(
+        dv.buffer,
+        dv.byteOffset + offset,
+        byteLength,
+      )
+      bytes.set(padding)
+      bytes.set(encoded.subarray(0, length), start)
+      if (format === "length-prefixed") {
+        setContainer(
+          dv,
+          offset,
+          prefixLength,
+          options.littleEndian ?? littleEndian,
+          length,
+        )
+      }
+    },
+  }
   return {
     enumerable: true,
+    schema: { type: "string", maxLength: Math.floor(capacity / unitLength) },
+    type: format === "length-prefixed"
+      ? undefined
+      : unitLength === 1
+      ? { array: "char", length: byteLength }
+      : {
+        array: { number: "u16", littleEndian: encoding === "utf-16le" },
+        length: Math.floor(byteLength / unitLength),
+      },
+    layout: fieldLayout(fieldOffset, byteLength, start || unitLength),
+    access,
     get() {
-      const str = TEXT_DECODER.decode(
-        structBytes(this, fieldOffset, fieldOffset + byteLength),
-      )
-      // trim all trailing null characters
-      return str.replace(/\0+$/, "")
+      return access.read(structDataView(this), 0, structLittleEndian(this))
     },
     set(value) {
-      const bytes = structBytes(
-        this,
-        fieldOffset,
-        fieldOffset + byteLength,
-      )
-      bytes.fill(0)
-      TEXT_ENCODER.encodeInto(value, bytes)
+      access.write(structDataView(this), 0, value, structLittleEndian(this))
     },
   }
 }
@@ -274,6 +938,10 @@ export function string(
 export function bool(fieldOffset: number): StructPropertyDescriptor<boolean> {
   return {
     enumerable: true,
+    schema: { type: "boolean" },
+    type: "bool",
+    primitive: { type: "bool" },
+    layout: fieldLayout(fieldOffset, 1),
     get() {
       return Boolean(structDataView(this).getUint8(fieldOffset))
     },
@@ -283,11 +951,395 @@ export function bool(fieldOffset: number): StructPropertyDescriptor<boolean> {
   }
 }
 
+/**
+ * Options for a field occupying a range of bits within an unsigned integer
+ */
+export type BitfieldOptions = {
+  /** position of the lowest bit of the field, counting from the least significant bit of the container */
+  readonly bitOffset: number
+  /** number of bits in the field */
+  readonly bitLength: number
+  /** size in bytes of the unsigned integer containing the bits. Defaults to 1 */
+  readonly byteLength?: 1 | 2 | 4
+  /** byte order of the container. Defaults to the byte order of the struct */
+  readonly littleEndian?: boolean
+}
+
+function getContainer(
+  dv: DataView,
+  fieldOffset: number,
+  byteLength: 1 | 2 | 4,
+  littleEndian: boolean,
+): number {
+  switch (byteLength) {
+    case 1:
+      return dv.getUint8(fieldOffset)
+    case 2:
+      return dv.getUint16(fieldOffset, littleEndian)
+    case 4:
+      return dv.getUint32(fieldOffset, littleEndian)
+  }
+}
+
+function setContainer(
+  dv: DataView,
+  fieldOffset: number,
+  byteLength: 1 | 2 | 4,
+  littleEndian: boolean,
+  value: number,
+) {
+  switch (byteLength) {
+    case 1:
+      return dv.setUint8(fieldOffset, value)
+    case 2:
+      return dv.setUint16(fieldOffset, value, littleEndian)
+    case 4:
+      return dv.setUint32(fieldOffset, value, littleEndian)
+  }
+}
+
+/**
+ * Descriptor for a range of bits, converted to and from the property value by the given functions
+ */
+function bitfield<T>(
+  fieldOffset: number,
+  options: BitfieldOptions,
+  fromBits: (bits: number) => T,
+  toBits: (value: T) => number,
+  schema: JsonSchema,
+): StructPropertyDescriptor<T> {
+  const { bitOffset, bitLength, byteLength = 1, littleEndian } = options
+  if (![1, 2, 4].includes(byteLength)) {
+    throw new TypeError("byteLength must be 1, 2, or 4")
+  }
+  if (
+    !Number.isInteger(bitOffset) || !Number.isInteger(bitLength) ||
+    bitOffset < 0 || bitLength < 1 || bitOffset + bitLength > byteLength * 8
+  ) {
+    throw new RangeError(
+      `bits ${bitOffset} to ${bitOffset + bitLength} do not fit in ${
+        byteLength * 8
+      } bits`,
+    )
+  }
+  // computed as a float since `1 << 32` would overflow
+  const mask = 2 ** bitLength - 1
+  return {
+    enumerable: true,
+    schema,
+    // the container, signed if the field is
+    type: fixedOrder(
+      `${(schema.minimum ?? 0) < 0 ? "i" : "u"}${byteLength * 8}` as NumberType,
+      littleEndian,
+    ),
+    layout: { ...fieldLayout(fieldOffset, byteLength), bitOffset, bitLength },
+    get() {
+      const word = getContainer(
+        structDataView(this),
+        fieldOffset,
+        byteLength,
+        littleEndian ?? structLittleEndian(this),
+      )
+      return fromBits(((word >>> bitOffset) & mask) >>> 0)
+    },
+    set(value) {
+      const dv = structDataView(this)
+      const le = littleEndian ?? structLittleEndian(this)
+      const word = getContainer(dv, fieldOffset, byteLength, le)
+      const cleared = word & ~(mask << bitOffset)
+      const bits = (toBits(value) & mask) << bitOffset
+      setContainer(dv, fieldOffset, byteLength, le, (cleared | bits) >>> 0)
+    },
+  }
+}
+
+/**
+ * Field for a range of bits within an unsigned integer, read and written as an unsigned integer.
+ * Bits of the container outside the range are preserved when writing,
+ * and values too large for the field are truncated to their lowest bits.
+ */
+export function ubits(
+  fieldOffset: number,
+  options: BitfieldOptions,
+): StructPropertyDescriptor<number> {
+  return bitfield(
+    fieldOffset,
+    options,
+    (bits) => bits,
+    (value) => value,
+    integerSchema(0, 2 ** options.bitLength - 1),
+  )
+}
+
+/**
+ * Field for a range of bits within an unsigned integer, read and written as a two's complement signed integer
+ */
+export function ibits(
+  fieldOffset: number,
+  options: BitfieldOptions,
+): StructPropertyDescriptor<number> {
+  const shift = 32 - options.bitLength
+  return bitfield(
+    fieldOffset,
+    options,
+    (bits) => (bits << shift) >> shift,
+    (value) => value,
+    integerSchema(
+      -(2 ** (options.bitLength - 1)),
+      2 ** (options.bitLength - 1) - 1,
+    ),
+  )
+}
+
+/**
+ * Field for a single bit within an unsigned integer, read and written as a boolean
+ */
+export function bit(
+  fieldOffset: number,
+  bitOffset: number,
+  options: Omit<BitfieldOptions, "bitOffset" | "bitLength"> = {},
+): StructPropertyDescriptor<boolean> {
+  return bitfield(
+    fieldOffset,
+    { ...options, bitOffset, bitLength: 1 },
+    (bits) => bits === 1,
+    (value) => value ? 1 : 0,
+    { type: "boolean" },
+  )
+}
+
+/**
+ * How an enum field reports a stored value that has no name
+ * - `"throw"`: throw a `RangeError`
+ * - `"number"`: return the raw value (the default)
+ * - `{ sentinel }`: return the given sentinel value
+ */
+export type UnknownEnumValue =
+  | "throw"
+  | "number"
+  | { readonly sentinel: unknown }
+
+/**
+ * Type of the property for an enum field
+ */
+export type EnumFieldValue<
+  Names,
+  Raw,
+  Unknown extends UnknownEnumValue,
+> = Unknown extends "number" ? Names | Raw
+  : Unknown extends { readonly sentinel: infer S } ? Names | S
+  : Names
+
+/**
+ * Field for an enumeration, stored as an integer but presented as the name of its value
+ *
+ * @example
+ * ```ts
+ * const Packet = defineStruct({
+ *   kind: enumerated(u8(0), { ping: 1, pong: 2 }),
+ * })
+ * ```
+ * @param field integer field holding the raw value, e.g. `u8(0)`
+ * @param values map from name to raw value. If multiple names have the same value, the first is used when reading
+ * @param options how to handle raw values with no name. Defaults to `"number"`, so that a zeroed struct can still be serialized. Names that are not in `values` always throw when written
+ */
+export function enumerated<
+  Raw extends number | bigint,
+  const Values extends Record<string, Raw>,
+  const Unknown extends UnknownEnumValue = "number",
+>(
+  field: StructPropertyDescriptor<Raw>,
+  values: Values,
+  options: { readonly unknown?: Unknown } = {},
+): StructPropertyDescriptor<
+  EnumFieldValue<keyof Values & string, Raw, Unknown>
+> {
+  const { get, set } = field
+  if (!get || !set) {
+    throw new TypeError("enum must wrap a readable and writable field")
+  }
+  const unknown: UnknownEnumValue = options.unknown ?? "number"
+  const nameSchema: JsonSchema = { enum: Object.keys(values) }
+  const names = new Map<unknown, string>()
+  for (const [name, value] of Object.entries(values)) {
+    if (!names.has(value)) {
+      names.set(value, name)
+    }
+  }
+  return {
+    enumerable: true,
+    schema: unknown === "number"
+      ? { anyOf: [nameSchema, field.schema ?? {}] }
+      : typeof unknown === "object"
+      ? { anyOf: [nameSchema, { const: unknown.sentinel }] }
+      : nameSchema,
+    layout: field.layout,
+    type: field.type,
+    get() {
+      const raw = get.call(this)
+      const name = names.get(raw)
+      if (name !== undefined) {
+        return name
+      }
+      if (unknown === "number") {
+        return raw
+      }
+      if (typeof unknown === "object") {
+        return unknown.sentinel
+      }
+      throw new RangeError(`unknown enum value ${raw}`)
+    },
+    set(value) {
+      if (typeof value === "string" && Object.hasOwn(values, value)) {
+        set.call(this, values[value])
+      } else if (
+        unknown === "number" &&
+        (typeof value === "number" || typeof value === "bigint")
+      ) {
+        set.call(this, value as Raw)
+      } else {
+        throw new RangeError(`unknown enum name '${String(value)}'`)
+      }
+    },
+  } as StructPropertyDescriptor<
+    EnumFieldValue<keyof Values & string, Raw, Unknown>
+  >
+}
+
+/**
+ * Live view of a flags field, with a boolean property per flag
+ */
+export type FlagSet<Names extends string> = { [K in Names]: boolean }
+
+/**
+ * Value which may be assigned to a flags field: the flags to set, either by name or as booleans
+ */
+export type FlagInput<Names extends string> =
+  | Iterable<Names>
+  | Partial<FlagSet<Names>>
+
+function hasBits(word: number | bigint, mask: number | bigint) {
+  return typeof word === "bigint"
+    ? (word & BigInt(mask)) !== 0n
+    : (word & Number(mask)) !== 0
+}
+
+function withBits(
+  word: number | bigint,
+  clear: number | bigint,
+  set: number | bigint,
+) {
+  return typeof word === "bigint"
+    ? (word & ~BigInt(clear)) | BigInt(set)
+    : ((word & ~Number(clear)) | Number(set)) >>> 0
+}
+
+/**
+ * Name of the property of a struct whose setter is the given function, for error messages
+ */
+function propertyNameOf(struct: object, setter: unknown): string | undefined {
+  for (let o = struct; o !== null; o = Object.getPrototypeOf(o)) {
+    for (const key of Object.getOwnPropertyNames(o)) {
+      if (Object.getOwnPropertyDescriptor(o, key)?.set === setter) {
+        return key
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Field for a set of named flags packed into an integer
+ *
+ * @remarks
+ * Reading the field gives a live object with a boolean property per flag, which reads and writes the underlying integer.
+ * Assigning to the field from an object (`{ read: true }`) or from an iterable of names (`["read"]`)
+ * sets exactly the given flags, clearing other named flags.
+ * The property itself is typed by what it reads, so only objects can be assigned to it without a cast;
+ * assign an iterable through `Object.assign`, or call the descriptor's `set`, whose parameter is typed as `FlagInput`.
+ * Bits not corresponding to any named flag are always preserved.
+ *
+ * @param field integer field holding the flags, e.g. `u16(0)`
+ * @param values map from flag name to bit mask, e.g. `{ read: 0x1, write: 0x2 }`
+ */
+export function flags<
+  Raw extends number | bigint,
+  const Values extends Record<string, Raw>,
+>(
+  field: StructPropertyDescriptor<Raw>,
+  values: Values,
+):
+  & StructPropertyDescriptor<FlagSet<keyof Values & string>>
+  & { set(value: FlagInput<keyof Values & string>): undefined } {
+  const { get, set } = field
+  if (!get || !set) {
+    throw new TypeError("flags must wrap a readable and writable field")
+  }
+  const masks: (number | bigint)[] = Object.values(values)
+  const noBits = typeof masks[0] === "bigint" ? 0n : 0
+  const allBits = masks.reduce((acc, mask) => withBits(acc, 0, mask), noBits)
+  const names = Object.keys(values)
+  const assign = function (
+    this: AnyStruct,
+    value: FlagInput<keyof Values & string>,
+  ): undefined {
+    if (typeof value !== "object" || value === null) {
+      const key = propertyNameOf(this, assign)
+      const what = key === undefined ? "flags field" : `flags field '${key}'`
+      const actual = value === null ? "null" : typeof value
+      throw new TypeError(
+        `${what} must be assigned an object or an iterable of names, not ${actual}`,
+      )
+    }
+    const entries: Iterable<[string, unknown]> = Symbol.iterator in value
+      ? Array.from(value as Iterable<string>, (name) => [name, true])
+      : Object.entries(value)
+    let setBits = noBits
+    for (const [name, isSet] of entries) {
+      if (!Object.hasOwn(values, name)) {
+        throw new RangeError(`unknown flag '${name}'`)
+      }
+      if (isSet) {
+        setBits = withBits(setBits, 0, values[name])
+      }
+    }
+    set.call(this, withBits(get.call(this), allBits, setBits) as Raw)
+  }
+  return {
+    enumerable: true,
+    schema: {
+      type: "object",
+      properties: Object.fromEntries(
+        names.map((name) => [name, { type: "boolean" }]),
+      ),
+      required: names,
+      additionalProperties: false,
+    },
+    layout: field.layout,
+    type: field.type,
+    get() {
+      const result = {}
+      for (const [name, mask] of Object.entries(values)) {
+        Object.defineProperty(result, name, {
+          enumerable: true,
+          get: () => hasBits(get.call(this), mask),
+          set: (value: boolean) => {
+            const word = get.call(this)
+            set.call(this, withBits(word, mask, value ? mask : 0) as Raw)
+          },
+        })
+      }
+      return Object.preventExtensions(result) as FlagSet<keyof Values & string>
+    },
+    set: assign,
+  }
+}
+
 /**
  * Field for an embedded struct
  * @param ctor constructor for the inner struct
  * @param byteOffset where the inner struct starts relative to the outer struct
- * @param bytelength the length in bytes of the inner struct
+ * @param bytelength the length in bytes of the inner struct. Defaults to the static `byteLength` of the inner struct, if any; otherwise the rest of the outer struct
  * @returns property descriptor for a struct
  */
 export function substruct<
@@ -295,19 +1347,201 @@ export function substruct<
 >(
   ctor: StructConstructor<T>,
   byteOffset?: number,
-  bytelength?: number,
+  bytelength: number | undefined = ctor.byteLength,
 ): StructPropertyDescriptor<T> {
-  return fromDataView(
-    function (dv) {
+  return {
+    enumerable: true,
+    schema: ctor.jsonSchema?.() ?? { type: "object" },
+    type: typeof bytelength === "undefined" ? undefined : { struct: ctor },
+    layout: typeof bytelength === "undefined"
+      ? undefined
+      : fieldLayout(byteOffset ?? 0, bytelength, ctor.byteAlign ?? 1),
+    get() {
+      const dv = structDataView(this)
       const offset2 = dv.byteOffset + (byteOffset ?? 0)
       const bytelength2 = bytelength ?? (dv.byteLength - (byteOffset ?? 0))
       return Reflect.construct(ctor, [{
         buffer: dv.buffer,
         byteOffset: offset2,
         byteLength: bytelength2,
+        littleEndian: ctor.littleEndian ?? structLittleEndian(this),
       }])
     },
-  )
+  }
+}
+
+/**
+ * Value of a variant field: a tag, and the struct it selects.
+ * Checking `tag` narrows the type of `value`
+ */
+export type Variant<
+  Variants extends { readonly [tag: PropertyKey]: StructConstructor<object> },
+> = {
+  [K in keyof Variants]: {
+    readonly tag: K
+    readonly value: Variants[K] extends StructConstructor<infer T> ? T
+      : never
+  }
+}[keyof Variants]
+
+/**
+ * Field for a tagged union: an embedded struct whose type is chosen by the value of another field
+ *
+ * @remarks
+ * If the tag field holds no known tag, the field reads as `{ tag }`, and reading its `value` throws a `RangeError`.
+ * Assigning `{ tag }` switches the variant by setting the tag field.
+ * If `value` is also given, it is copied in: a struct is copied byte for byte, other objects property by property.
+ *
+ * @example
+ * ```ts
+ * class Message extends defineStruct({
+ *   kind: u8(0),
+ *   body: variant(4, { tag: "kind", variants: { 1: Ping, 2: Data } }),
+ * }) {}
+ * const { body } = new Message(bytes)
+ * if (body.tag === 2) {
+ *   body.value // Data
+ * }
+ * ```
+ * @param fieldOffset where the inner struct starts relative to the outer struct
+ */
+export function variant<
+  const Variants extends {
+    readonly [tag: PropertyKey]: StructConstructor<object>
+  },
+>(
+  fieldOffset: number,
+  options: {
+    /** name of the property holding the tag */
+    readonly tag: string
+    /** struct class for each tag value */
+    readonly variants: Variants
+    /** size in bytes of the inner struct. Defaults to the largest static `byteLength` of the variants, if all are known; otherwise the rest of the outer struct */
+    readonly byteLength?: number
+    /** zero the bytes of the inner struct when assigning, so fields not copied in are zero */
+    readonly clear?: boolean
+  },
+): StructPropertyDescriptor<Variant<Variants>> {
+  const { tag: tagField, variants, clear } = options
+  const ctors = Object.values(variants)
+  const byteLength = options.byteLength ??
+    (ctors.every((ctor) => ctor.byteLength !== undefined)
+      ? Math.max(0, ...ctors.map((ctor) => ctor.byteLength ?? 0))
+      : undefined)
+  const byteAlign = Math.max(1, ...ctors.map((ctor) => ctor.byteAlign ?? 1))
+
+  function ctorFor(tag: unknown) {
+    if (!Object.hasOwn(variants, tag as PropertyKey)) {
+      throw new RangeError(`unknown variant tag ${String(tag)}`)
+    }
+    return variants[tag as keyof Variants]
+  }
+  function payload(struct: AnyStruct) {
+    const dv = structDataView(struct)
+    return structBytes(
+      struct,
+      fieldOffset,
+      byteLength === undefined ? dv.byteLength : fieldOffset + byteLength,
+    )
+  }
+  function get(this: AnyStruct): Variant<Variants> {
+    const tag = Reflect.get(this, tagField)
+    if (!Object.hasOwn(variants, tag)) {
+      // reading the value throws, but the struct can still be serialized
+      return Object.defineProperty({ tag }, "value", {
+        get: () => ctorFor(tag),
+      }) as Variant<Variants>
+    }
+    const ctor = ctorFor(tag)
+    const bytes = payload(this)
+    const value = new ctor({
+      buffer: bytes.buffer,
+      byteOffset: bytes.byteOffset,
+      byteLength: ctor.byteLength ?? bytes.byteLength,
+      littleEndian: ctor.littleEndian ?? structLittleEndian(this),
+    })
+    return { tag, value } as Variant<Variants>
+  }
+  return {
+    enumerable: true,
+    schema: {
+      oneOf: Object.entries(variants).map(([tag, ctor]) => ({
+        type: "object",
+        properties: {
+          // numeric keys stand for numeric tags
+          tag: { const: String(Number(tag)) === tag ? Number(tag) : tag },
+          value: ctor.jsonSchema?.() ?? { type: "object" },
+        },
+        required: ["tag", "value"],
+        additionalProperties: false,
+      })),
+    },
+    layout: byteLength === undefined
+      ? undefined
+      : fieldLayout(fieldOffset, byteLength, byteAlign),
+    get,
+    set(value: { readonly tag: keyof Variants; readonly value?: object }) {
+      ctorFor(value.tag)
+      const source = value.value
+      const sourceBytes = source && dataViewSymbol in source
+        ? structBytes(source as AnyStruct).slice()
+        : undefined
+      Reflect.set(this, tagField, value.tag)
+      const bytes = payload(this)
+      if (clear) {
+        bytes.fill(0)
+      }
+      if (sourceBytes) {
+        bytes.set(sourceBytes.subarray(0, bytes.length))
+      } else if (source) {
+        writeInto(get.call(this).value, source)
+      }
+    },
+  }
+}
+
+/**
+ * Wrap a function returning a fresh object in a Proxy which forwards every operation to the latest object
+ * @param current function giving the object to forward to
+ * @param prototype prototype of the objects returned by `current`
+ */
+function liveProxy<T extends object>(current: () => T, prototype: object): T {
+  return new Proxy(Object.create(prototype), {
+    get(_target, key) {
+      const target = current()
+      const value = Reflect.get(target, key, target)
+      return typeof value === "function" ? value.bind(target) : value
+    },
+    set(_target, key, value) {
+      const target = current()
+      return Reflect.set(target, key, value, target)
+    },
+    has(_target, key) {
+      return Reflect.has(current(), key)
+    },
+    ownKeys() {
+      return Reflect.ownKeys(current())
+    },
+    getOwnPropertyDescriptor(_target, key) {
+      return Reflect.getOwnPropertyDescriptor(current(), key)
+    },
+  })
+}
+
+/** Element type of each kind of TypedArray, by constructor name */
+const TYPED_ARRAY_TYPES: Partial<Record<string, NumberType>> = {
+  Uint8Array: "u8",
+  Uint8ClampedArray: "u8",
+  Int8Array: "i8",
+  Uint16Array: "u16",
+  Int16Array: "i16",
+  Uint32Array: "u32",
+  Int32Array: "i32",
+  BigUint64Array: "u64",
+  BigInt64Array: "i64",
+  Float16Array: "f16",
+  Float32Array: "f32",
+  Float64Array: "f64",
 }
 
 /**
@@ -316,50 +1550,521 @@ export function substruct<
  * @remarks
  *
  * I'm not totally happy with this.
- * - TypedArray does not support endianness.
+ * - TypedArray does not support endianness. Consider `numberArray` instead.
  * - Changing the length property of the parent struct will not change the length of the returned value. `a=x.ar; x.arlength=2;` will not change a's length (though a will still be a live view of the underlying buffer).
+ *   Pass `live: true` to get a Proxy which always reflects the current length instead.
+ *
+ * Assigning an array-like to the field copies its items into the struct.
+ * If the length is a property name, that property is updated to the new length; otherwise the lengths must match.
  *
  * @param fieldOffset  where the array starts relative to the parent struct
  */
-export function typedArray<T>(
+export function typedArray<
+  T extends ArrayLike<unknown>,
+  S = Record<string, unknown>,
+>(
   fieldOffset: number,
   kwargs: {
-    /** length or property name for the length of the array */
-    readonly length: number | string | undefined
+    /** length, or property name or function giving the length of the array */
+    readonly length: DynamicValue<S> | undefined
     /** TypedArray constructor */
     readonly species: TypedArraySpecies<T>
+    /** return a Proxy that always views the current length of the array, rather than a TypedArray */
+    readonly live?: boolean
   },
 ): StructPropertyDescriptor<T> {
-  const { length, species } = kwargs
+  const { length, species, live } = kwargs
+  const itemType = TYPED_ARRAY_TYPES[species.name]
+  function get(this: AnyStruct): T {
+    const dv = structDataView(this)
+    let lengthValue
+    if (typeof length === "undefined") {
+      lengthValue = Math.floor(
+        (dv.byteLength - fieldOffset) / species.BYTES_PER_ELEMENT,
+      )
+    } else {
+      lengthValue = resolveDynamic(this, length)
+    }
+    return new species(
+      dv.buffer,
+      dv.byteOffset + fieldOffset,
+      lengthValue,
+    )
+  }
   return {
     enumerable: true,
-    get() {
-      const dv = structDataView(this)
-      let lengthValue
-      if (typeof length === "undefined") {
-        lengthValue = Math.floor(
-          (dv.byteLength - fieldOffset) / species.BYTES_PER_ELEMENT,
+    schema: {
+      type: "array",
+      items: itemType === undefined ? {} : NUMBER_TYPE_SCHEMAS[itemType],
+      ...(typeof length === "number"
+        ? { minItems: length, maxItems: length }
+        : {}),
+    },
+    type: itemType === undefined || typeof length !== "number"
+      ? undefined
+      : { array: itemType, length },
+    layout: typeof length === "number"
+      ? fieldLayout(
+        fieldOffset,
+        length * species.BYTES_PER_ELEMENT,
+        species.BYTES_PER_ELEMENT,
+      )
+      : undefined,
+    get: live
+      ? function (this: AnyStruct) {
+        return liveProxy(() => get.call(this) as T & object, species.prototype)
+      }
+      : get,
+    set(value: ArrayLike<unknown>) {
+      type Target = { length: number; set(a: ArrayLike<unknown>): void }
+      if (typeof length !== "string") {
+        const array = get.call(this) as unknown as Target
+        if (array.length !== value.length) {
+          throw new RangeError(
+            `expected ${array.length} items but got ${value.length}`,
+          )
+        }
+        array.set(value)
+        return
+      }
+      // check the items fit before touching the length property
+      const room = Math.floor(
+        (structDataView(this).byteLength - fieldOffset) /
+          species.BYTES_PER_ELEMENT,
+      )
+      if (value.length > room) {
+        throw new RangeError(
+          `expected at most ${room} items but got ${value.length}`,
         )
-      } else if (typeof length === "number") {
-        lengthValue = length
-      } else if (typeof length === "string") {
-        lengthValue = Reflect.get(this, length)
       }
-      return new species(
-        dv.buffer,
-        dv.byteOffset + fieldOffset,
-        lengthValue,
+      const oldLength = Reflect.get(this, length)
+      Reflect.set(this, length, value.length)
+      try {
+        const array = get.call(this) as unknown as Target
+        array.set(value)
+      } catch (e) {
+        Reflect.set(this, length, oldLength)
+        throw e
+      }
+    },
+  }
+}
+
+/**
+ * Field for an array of numbers with a chosen byte order, presented as a live `NumberArray` view.
+ * Unlike `typedArray`, the items need not be in the platform's byte order, aligned, or contiguous.
+ * Assigning an array-like to the field copies its items, which must be of the same length.
+ *
+ * @param fieldOffset where the array starts relative to the parent struct
+ */
+export function numberArray<
+  const Type extends NumberType,
+  S = Record<string, unknown>,
+>(
+  fieldOffset: number,
+  options: {
+    /** type of each item, e.g. `"u16"` or `"f32"` */
+    readonly type: Type
+    /** number of items, or property name or function giving the number of items. If omitted, the array extends to the end of the struct */
+    readonly length?: DynamicValue<S>
+    /** number of bytes between the start of consecutive items. Defaults to the size of an item */
+    readonly byteStride?: number
+    /** byte order of the items. Defaults to the byte order of the struct */
+    readonly littleEndian?: boolean
+  },
+): StructPropertyDescriptor<NumberArray<NumberTypeValue<Type>>> {
+  const { type, length, littleEndian } = options
+  const itemLength = numberTypeByteLength(type)
+  const byteStride = options.byteStride ?? itemLength
+  if (!(byteStride > 0)) {
+    throw new RangeError("byteStride must be a positive number")
+  }
+  const fixedByteLength = typeof length === "number"
+    ? (length === 0 ? 0 : (length - 1) * byteStride + itemLength)
+    : undefined
+
+  function get(this: AnyStruct) {
+    const dv = structDataView(this)
+    return new NumberArray<NumberTypeValue<Type>>({
+      buffer: dv.buffer,
+      byteOffset: dv.byteOffset + fieldOffset,
+      byteLength: fixedByteLength ?? dv.byteLength - fieldOffset,
+      littleEndian: littleEndian ?? structLittleEndian(this),
+    }, {
+      type,
+      byteStride,
+      length: typeof length === "number" || length === undefined
+        ? length
+        : () => resolveDynamic(this, length),
+    })
+  }
+  return {
+    enumerable: true,
+    schema: {
+      type: "array",
+      items: NUMBER_TYPE_SCHEMAS[type],
+      ...(typeof length === "number"
+        ? { minItems: length, maxItems: length }
+        : {}),
+    },
+    type: typeof length === "number" && byteStride === itemLength
+      ? { array: fixedOrder(type, littleEndian), length }
+      : undefined,
+    layout: fixedByteLength === undefined
+      ? undefined
+      : fieldLayout(fieldOffset, fixedByteLength, itemLength),
+    get,
+    set(value: ArrayLike<NumberTypeValue<Type>>) {
+      const view = get.call(this)
+      if (value.length !== view.length) {
+        throw new RangeError(
+          `expected ${view.length} items but got ${value.length}`,
+        )
+      }
+      view.set(value)
+    },
+  }
+}
+
+/**
+ * Options for an array field, other than the type of its items
+ */
+export type ArrayFieldOptions<S = Record<string, unknown>> = {
+  /** number of items, or property name or function giving the number of items. If omitted, the array extends to the end of the struct */
+  readonly length?: DynamicValue<S>
+  /** number of bytes between the start of consecutive items. Defaults to the size of an item */
+  readonly byteStride?: number
+}
+
+/**
+ * Item of an array of structs: an embedded struct which can be assigned a struct or a plain object
+ */
+function structItem<T extends object>(
+  ctor: StructConstructor<T>,
+  byteOffset: number,
+): StructPropertyDescriptor<T> {
+  const field = substruct(ctor, byteOffset)
+  return {
+    ...field,
+    set(value: object) {
+      if (dataViewSymbol in value) {
+        const source = structBytes(value as AnyStruct).slice()
+        const byteLength = ctor.byteLength ?? source.length
+        structBytes(this, byteOffset, byteOffset + byteLength)
+          .set(source.subarray(0, byteLength))
+      } else {
+        writeInto(field.get!.call(this) as object, value)
+      }
+    },
+  }
+}
+
+/**
+ * Field for an array of items of any field type, like structs, strings, or other arrays, presented as a live `FieldArray` view.
+ * Assigning an array-like to the field copies its items, which must be of the same length.
+ * Items which are structs may be assigned structs, copied byte for byte, or plain objects, copied property by property.
+ *
+ * @example
+ * ```ts
+ * class Mesh extends defineStruct({
+ *   count: u8(0),
+ *   points: array(4, { item: Vec3, length: 8 }), // Vec3 points[8]
+ *   names: array(100, { item: (o) => string(o, 16), length: 4 }), // char names[4][16]
+ *   visible: array(164, { item: bool, length: "count" }),
+ * }) {}
+ * ```
+ * @param fieldOffset where the array starts relative to the parent struct
+ */
+export function array<T extends object, S = Record<string, unknown>>(
+  fieldOffset: number,
+  options: ArrayFieldOptions<S> & {
+    /** struct class of each item */
+    readonly item: StructConstructor<T>
+  },
+): StructPropertyDescriptor<FieldArray<T>>
+export function array<T, S = Record<string, unknown>>(
+  fieldOffset: number,
+  options: ArrayFieldOptions<S> & {
+    /** factory for the field of each item given its offset, like `u32` or `(o) => string(o, 16)` */
+    readonly item: (byteOffset: number) => StructPropertyDescriptor<T>
+  },
+): StructPropertyDescriptor<FieldArray<T>>
+export function array<T, S = Record<string, unknown>>(
+  fieldOffset: number,
+  options: ArrayFieldOptions<S> & {
+    readonly item:
+      | StructConstructor<T & object>
+      | ((byteOffset: number) => StructPropertyDescriptor<T>)
+  },
+): StructPropertyDescriptor<FieldArray<T>> {
+  const { item, length } = options
+  const makeItem = item.prototype instanceof Struct
+    ? (byteOffset: number) =>
+      structItem(item as StructConstructor<T & object>, byteOffset)
+    : item as (byteOffset: number) => StructPropertyDescriptor<T>
+  // the first item gives the layout; others are made as they are accessed
+  const first = makeItem(0)
+  function itemAt(byteOffset: number): StructPropertyDescriptor<T> {
+    return byteOffset === 0 ? first : makeItem(byteOffset)
+  }
+  const itemLength = first.layout?.byteLength
+  if (options.byteStride === undefined && itemLength === undefined) {
+    throw new TypeError("byteStride is required for items of unknown size")
+  }
+  const byteStride: number = options.byteStride ?? itemLength!
+  if (!(byteStride > 0)) {
+    throw new RangeError("byteStride must be a positive number")
+  }
+  const fixedByteLength = typeof length === "number"
+    ? (length === 0
+      ? 0
+      : (length - 1) * byteStride + (itemLength ?? byteStride))
+    : undefined
+
+  function get(this: AnyStruct) {
+    const dv = structDataView(this)
+    return new FieldArray<T>({
+      buffer: dv.buffer,
+      byteOffset: dv.byteOffset + fieldOffset,
+      byteLength: fixedByteLength ?? dv.byteLength - fieldOffset,
+      littleEndian: structLittleEndian(this),
+    }, {
+      item: itemAt,
+      byteStride,
+      itemLength,
+      length: typeof length === "number" || length === undefined
+        ? length
+        : () => resolveDynamic(this, length),
+    })
+  }
+  return {
+    enumerable: true,
+    schema: {
+      type: "array",
+      items: first.schema ?? {},
+      ...(typeof length === "number"
+        ? { minItems: length, maxItems: length }
+        : {}),
+    },
+    type: typeof length === "number" && first.type !== undefined &&
+        byteStride === itemLength
+      ? { array: first.type, length }
+      : undefined,
+    layout: fixedByteLength === undefined
+      ? undefined
+      : fieldLayout(fieldOffset, fixedByteLength, first.layout?.byteAlign ?? 1),
+    get,
+    set(value: ArrayLike<T>) {
+      const view = get.call(this)
+      if (value.length !== view.length) {
+        throw new RangeError(
+          `expected ${view.length} items but got ${value.length}`,
+        )
+      }
+      view.set(value)
+    },
+  }
+}
+
+/**
+ * Field for an integer read and written with `Atomics`, for structs shared between workers, presented as a live `Atomic` view.
+ * Assigning to the field stores the value atomically.
+ * The field must be aligned to its size, and the struct in the platform's byte order (little-endian on all common platforms).
+ *
+ * @example
+ * ```ts
+ * class Shared extends defineStruct({
+ *   ready: atomic(0, "i32"),
+ *   count: atomic(8, "u64"),
+ * }) {}
+ * const shared = new Shared({ buffer: new SharedArrayBuffer(16) })
+ * shared.count.add(1n)
+ * shared.ready.store(1)
+ * shared.ready.notify()
+ * ```
+ * @param fieldOffset offset of the field, which must be a multiple of its size
+ * @param type integer type, e.g. `"i32"` or `"u64"`
+ */
+export function atomic<const Type extends AtomicType>(
+  fieldOffset: number,
+  type: Type,
+): StructPropertyDescriptor<Atomic<NumberTypeValue<Type>>> {
+  const byteLength = atomicTypeByteLength(type)
+  if (fieldOffset % byteLength !== 0) {
+    throw new RangeError(
+      `${type} at byte ${fieldOffset} is not aligned for atomic access`,
+    )
+  }
+  function get(this: AnyStruct) {
+    const dv = structDataView(this)
+    return new Atomic<NumberTypeValue<Type>>({
+      buffer: dv.buffer,
+      byteOffset: dv.byteOffset + fieldOffset,
+      byteLength,
+      littleEndian: structLittleEndian(this),
+    }, { type })
+  }
+  return {
+    enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS[type],
+    type,
+    layout: fieldLayout(fieldOffset, byteLength),
+    get,
+    set(value: number | bigint | Atomic<NumberTypeValue<Type>>) {
+      const n = value instanceof Atomic ? value.load() : value
+      get.call(this).store(
+        (byteLength === 8 ? BigInt(n) : Number(n)) as NumberTypeValue<Type>,
       )
     },
   }
 }
 
+/**
+ * Options for a bytes field
+ */
+export type BytesOptions = {
+  /** present the bytes as a lowercase hexadecimal string rather than a live `Uint8Array` */
+  readonly hex?: boolean
+}
+
+/** Hex digits, optionally separated by colons, hyphens, or whitespace, as in MAC addresses */
+const HEX_STRING = /^(?:[0-9a-f]{2}[:\-\s]?)*$/i
+
+/**
+ * Parse a hex string, like `"00:1a:2b"` or `"001a2b"`, into bytes
+ */
+function parseHex(hex: string): Uint8Array {
+  if (!HEX_STRING.test(hex)) {
+    throw new TypeError(`invalid hex string '${hex}'`)
+  }
+  const digits = hex.replace(/[:\-\s]/g, "")
+  const result = new Uint8Array(digits.length / 2)
+  for (let i = 0; i < result.length; ++i) {
+    result[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16)
+  }
+  return result
+}
+
+function formatHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Field for opaque bytes, like a hash, a MAC address, or a reserved region, presented as a live `Uint8Array`.
+ * Assigning a `Uint8Array`, an array-like of bytes, or a hex string copies it into the struct; its length must match.
+ *
+ * @example
+ * ```ts
+ * class Frame extends defineStruct({
+ *   destination: bytes(0, 6),
+ *   digest: bytes(6, 32, { hex: true }),
+ * }) {}
+ * Object.assign(frame, { destination: "00:1a:2b:3c:4d:5e" })
+ * ```
+ * @param fieldOffset offset of the field
+ * @param byteLength number of bytes in the field
+ * @param options whether to present the bytes as a hex string
+ */
+export function bytes(
+  fieldOffset: number,
+  byteLength: number,
+  options?: BytesOptions & { readonly hex?: false },
+): StructPropertyDescriptor<Uint8Array>
+export function bytes(
+  fieldOffset: number,
+  byteLength: number,
+  options: BytesOptions & { readonly hex: true },
+): StructPropertyDescriptor<string>
+export function bytes(
+  fieldOffset: number,
+  byteLength: number,
+  options: BytesOptions = {},
+): StructPropertyDescriptor<Uint8Array | string> {
+  const { hex = false } = options
+  return {
+    enumerable: true,
+    schema: hex
+      ? { type: "string", pattern: `^(?:[0-9a-f]{2}){${byteLength}}$` }
+      : {
+        type: "array",
+        items: NUMBER_TYPE_SCHEMAS.u8,
+        minItems: byteLength,
+        maxItems: byteLength,
+      },
+    type: { array: "u8", length: byteLength },
+    layout: fieldLayout(fieldOffset, byteLength, 1),
+    get() {
+      const view = structBytes(this, fieldOffset, fieldOffset + byteLength)
+      return hex ? formatHex(view) : view
+    },
+    set(value: string | ArrayLike<number>) {
+      const source = typeof value === "string" ? parseHex(value) : value
+      if (source.length !== byteLength) {
+        throw new RangeError(
+          `expected ${byteLength} bytes but got ${source.length}`,
+        )
+      }
+      structBytes(this, fieldOffset, fieldOffset + byteLength).set(source)
+    },
+  }
+}
+
+/**
+ * Field whose offset, and possibly size, depends on the struct instance,
+ * e.g. a field following a variable-length blob or at an offset stored in a header.
+ *
+ * @remarks
+ * The field has no static layout, so it is not checked by `validate` and cannot be used with `defineLayout`.
+ * The inner field is created anew on each access.
+ *
+ * @example
+ * ```ts
+ * class Chunk extends defineStruct({
+ *   length: u32be(0),
+ *   data: typedArray(8, { species: Uint8Array, length: "length" }),
+ *   crc: dynamic((s: { length: number }) => 8 + s.length, u32be),
+ * }) {}
+ * ```
+ * @param byteOffset offset of the field: a number, the name of a property holding the offset, or a function of the struct instance
+ * @param field factory for the inner field, given its offset and the struct instance
+ * @returns property descriptor for the inner field at the computed offset
+ */
+export function dynamic<T, S = Record<string, unknown>>(
+  byteOffset: DynamicValue<S>,
+  field: (byteOffset: number, struct: S) => StructPropertyDescriptor<T>,
+): StructPropertyDescriptor<T> {
+  function inner(struct: AnyStruct) {
+    return field(resolveDynamic(struct, byteOffset), struct as S)
+  }
+  return {
+    enumerable: true,
+    get() {
+      const { get } = inner(this)
+      if (!get) {
+        throw new TypeError("field is not readable")
+      }
+      return get.call(this)
+    },
+    set(value) {
+      const { set } = inner(this)
+      if (!set) {
+        throw new TypeError("field is not writable")
+      }
+      set.call(this, value)
+    },
+  }
+}
+
 /**
  * Field for a big-endian 16-bit unsigned integer
  */
 export function u16be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u16,
+    type: { number: "u16", littleEndian: false },
+    primitive: { type: "u16", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
       return structDataView(this).getUint16(fieldOffset, false)
     },
@@ -374,6 +2079,10 @@ export function u16be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function u32be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u32,
+    type: { number: "u32", littleEndian: false },
+    primitive: { type: "u32", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
       return structDataView(this).getUint32(fieldOffset, false)
     },
@@ -388,6 +2097,10 @@ export function u32be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function u64be(fieldOffset: number): StructPropertyDescriptor<bigint> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.u64,
+    type: { number: "u64", littleEndian: false },
+    primitive: { type: "u64", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
       return structDataView(this).getBigUint64(fieldOffset, false)
     },
@@ -402,6 +2115,10 @@ export function u64be(fieldOffset: number): StructPropertyDescriptor<bigint> {
 export function i16be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i16,
+    type: { number: "i16", littleEndian: false },
+    primitive: { type: "i16", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
       return structDataView(this).getInt16(fieldOffset, false)
     },
@@ -416,6 +2133,10 @@ export function i16be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function i32be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i32,
+    type: { number: "i32", littleEndian: false },
+    primitive: { type: "i32", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
       return structDataView(this).getInt32(fieldOffset, false)
     },
@@ -430,6 +2151,10 @@ export function i32be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function i64be(fieldOffset: number): StructPropertyDescriptor<bigint> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.i64,
+    type: { number: "i64", littleEndian: false },
+    primitive: { type: "i64", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
       return structDataView(this).getBigInt64(fieldOffset, false)
     },
@@ -451,6 +2176,10 @@ export function f16be(fieldOffset: number): StructPropertyDescriptor<number> {
   }
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f16,
+    type: { number: "f16", littleEndian: false },
+    primitive: { type: "f16", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 2),
     get() {
       return structDataView(this).getFloat16(fieldOffset, false)
     },
@@ -466,6 +2195,10 @@ export function f16be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function f32be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f32,
+    type: { number: "f32", littleEndian: false },
+    primitive: { type: "f32", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 4),
     get() {
       return structDataView(this).getFloat32(fieldOffset, false)
     },
@@ -481,6 +2214,10 @@ export function f32be(fieldOffset: number): StructPropertyDescriptor<number> {
 export function f64be(fieldOffset: number): StructPropertyDescriptor<number> {
   return {
     enumerable: true,
+    schema: NUMBER_TYPE_SCHEMAS.f64,
+    type: { number: "f64", littleEndian: false },
+    primitive: { type: "f64", littleEndian: false },
+    layout: fieldLayout(fieldOffset, 8),
     get() {
       return structDataView(this).getFloat64(fieldOffset, false)
     },
@@ -0,0 +1,153 @@
+/**
+ * Tools for declaring a struct whose field offsets are computed automatically,
+ * following the layout rules of a C compiler
+ * @module
+ */
+
+import { defineStruct } from "./core.ts"
+import type {
+  DefinedStruct,
+  FieldLayout,
+  StructPropertyDescriptor,
+} from "./types.ts"
+
+/**
+ * A field whose offset is not yet decided, e.g. `u32` or `(o) => string(o, 16)`
+ */
+export type FieldFactory<T> = (
+  byteOffset: number,
+) => StructPropertyDescriptor<T>
+
+/**
+ * Options controlling how fields are placed
+ */
+export type LayoutOptions = {
+  /**
+   * Maximum alignment of any field, like `#pragma pack(N)`.
+   * Must be a power of two. If omitted, fields are naturally aligned.
+   */
+  readonly pack?: number
+  /**
+   * Place fields with no padding at all, like `__attribute__((packed))`.
+   * Equivalent to `pack: 1`
+   */
+  readonly packed?: boolean
+  /** Byte order of the struct, as in `defineStruct` */
+  readonly littleEndian?: boolean
+  /** Define a `toJSON` method on instances, as in `defineStruct` */
+  readonly toJSON?: boolean
+}
+
+/**
+ * The result of laying out a list of fields
+ */
+export type ComputedLayout<Keys extends PropertyKey> = {
+  /** total size in bytes, including any trailing padding */
+  readonly byteLength: number
+  /** alignment in bytes of the struct as a whole */
+  readonly byteAlign: number
+  /** location of each field */
+  readonly fields: { readonly [K in Keys]: FieldLayout }
+}
+
+/**
+ * Struct class produced by `defineLayout`
+ */
+export type LayoutStruct<
+  Fields extends Record<string, FieldFactory<unknown>>,
+> =
+  & DefinedStruct<{ [K in keyof Fields]: ReturnType<Fields[K]> }>
+  & ComputedLayout<keyof Fields>
+
+function alignUp(n: number, align: number) {
+  return Math.ceil(n / align) * align
+}
+
+/**
+ * Compute the offset of each field, placing them sequentially in declaration order
+ * and inserting padding so each field is aligned the way a C compiler would.
+ *
+ * @param fields field factories, in order. Each is called with a candidate offset to determine its size and alignment.
+ * @param options packing options
+ * @returns the offset of each field, and the size and alignment of the whole struct
+ */
+export function computeLayout<
+  const Fields extends Record<string, FieldFactory<unknown>>,
+>(
+  fields: Fields,
+  options: LayoutOptions = {},
+): ComputedLayout<keyof Fields> {
+  const pack = options.packed ? 1 : options.pack ?? Infinity
+  if (
+    pack !== Infinity &&
+    !(Number.isInteger(pack) && pack > 0 && (pack & (pack - 1)) === 0)
+  ) {
+    throw new RangeError("pack must be a positive power of two")
+  }
+
+  let cursor = 0
+  let structAlign = 1
+  const result: Record<string, FieldLayout> = {}
+  for (const [key, factory] of Object.entries(fields)) {
+    const probe = factory(0).layout
+    if (!probe) {
+      throw new TypeError(`cannot determine the size of field '${key}'`)
+    }
+    const byteAlign = Math.min(probe.byteAlign, pack)
+    const byteOffset = alignUp(cursor, byteAlign)
+    result[key] = { byteOffset, byteLength: probe.byteLength, byteAlign }
+    cursor = byteOffset + probe.byteLength
+    structAlign = Math.max(structAlign, byteAlign)
+  }
+  return {
+    byteLength: alignUp(cursor, structAlign),
+    byteAlign: structAlign,
+    fields: result as { [K in keyof Fields]: FieldLayout },
+  }
+}
+
+/**
+ * Subclass struct with the given fields, computing their offsets automatically.
+ *
+ * @remarks
+ * Fields are placed in property order. Note that JavaScript orders integer-like keys (e.g. `0`, `1`) before all other keys.
+ *
+ * @example
+ * ```ts
+ * class Header extends defineLayout({
+ *   tag: u8, // offset 0
+ *   length: u32, // offset 4
+ *   name: (o) => string(o, 10), // offset 8
+ * }) {} // Header.byteLength == 20
+ * ```
+ * @param fields factories for each field, taking the byte offset of the field
+ * @param options packing options
+ * @returns A new class, inheriting from `Struct`, with the fields added and static layout information
+ */
+export function defineLayout<
+  const Fields extends Record<string, FieldFactory<unknown>>,
+>(
+  fields: Fields,
+  options?: LayoutOptions,
+): LayoutStruct<Fields> {
+  const layout = computeLayout(fields, options)
+  const descriptors: PropertyDescriptorMap = {}
+  const fieldLayouts: Record<string, FieldLayout> = {}
+  for (const [key, factory] of Object.entries(fields)) {
+    const descriptor = factory(layout.fields[key].byteOffset)
+    descriptors[key] = descriptor
+    // the descriptor's own layout keeps the bit position of bitfields; the alignment is as packed
+    fieldLayouts[key] = {
+      ...descriptor.layout ?? layout.fields[key],
+      byteAlign: layout.fields[key].byteAlign,
+    }
+  }
+  return class extends defineStruct(descriptors, {
+    byteLength: layout.byteLength,
+    byteAlign: layout.byteAlign,
+    littleEndian: options?.littleEndian,
+    toJSON: options?.toJSON,
+  }) {
+    static override readonly fields = fieldLayouts
+  } as LayoutStruct<Fields>
+}
@@ -0,0 +1,105 @@
+import { computeLayout, defineLayout } from "./layout.ts"
+import {
+  f32,
+  f64,
+  string,
+  substruct,
+  u16,
+  u32,
+  u64,
+  u8,
+  ubits,
+} from "./fields.ts"
+import { Struct, structDataView } from "./core.ts"
+
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert"
+
+Deno.test("natural alignment", () => {
+  class S extends defineLayout({
+    a: u8,
+    b: u32,
+    c: u16,
+    d: f64,
+    e: u8,
+  }) {}
+  assertEquals(S.fields.a, { byteOffset: 0, byteLength: 1, byteAlign: 1 })
+  assertEquals(S.fields.b, { byteOffset: 4, byteLength: 4, byteAlign: 4 })
+  assertEquals(S.fields.c, { byteOffset: 8, byteLength: 2, byteAlign: 2 })
+  assertEquals(S.fields.d, { byteOffset: 16, byteLength: 8, byteAlign: 8 })
+  assertEquals(S.fields.e, { byteOffset: 24, byteLength: 1, byteAlign: 1 })
+  assertEquals(S.byteAlign, 8)
+  // trailing padding rounds up to the struct's alignment
+  assertEquals(S.byteLength, 32)
+
+  const s = new S({ byteLength: S.byteLength })
+  assertInstanceOf(s, Struct)
+  s.b = 0x01020304
+  s.d = 1.5
+  const dv = structDataView(s)
+  assertEquals(dv.getUint32(4, true), 0x01020304)
+  assertEquals(dv.getFloat64(16, true), 1.5)
+})
+
+Deno.test("packed", () => {
+  const fields = { a: u8, b: u32, c: u16, d: f64 }
+  const packed = computeLayout(fields, { packed: true })
+  assertEquals(packed.fields.b.byteOffset, 1)
+  assertEquals(packed.fields.c.byteOffset, 5)
+  assertEquals(packed.fields.d.byteOffset, 7)
+  assertEquals(packed.byteLength, 15)
+  assertEquals(packed.byteAlign, 1)
+
+  const pack2 = computeLayout(fields, { pack: 2 })
+  assertEquals(pack2.fields.b.byteOffset, 2)
+  assertEquals(pack2.fields.c.byteOffset, 6)
+  assertEquals(pack2.fields.d.byteOffset, 8)
+  assertEquals(pack2.byteLength, 16)
+  assertEquals(pack2.byteAlign, 2)
+
+  assertThrows(() => computeLayout(fields, { pack: 3 }), RangeError)
+  assertThrows(() => computeLayout(fields, { pack: 0 }), RangeError)
+})
+
+Deno.test("bitfields keep their bit position", () => {
+  class S extends defineLayout({
+    a: u8,
+    flags: (o) => ubits(o, { bitOffset: 3, bitLength: 5, byteLength: 2 }),
+  }, { packed: true }) {}
+  assertEquals(S.fields.flags, {
+    byteOffset: 1,
+    byteLength: 2,
+    byteAlign: 1,
+    bitOffset: 3,
+    bitLength: 5,
+  })
+})
+
+Deno.test("strings and nested structs", () => {
+  class Point extends defineLayout({ x: f32, y: f32 }) {}
+  class Named extends defineLayout({
+    tag: u8,
+    name: (o) => string(o, 5),
+    where: (o) => substruct(Point, o, Point.byteLength),
+    id: u64,
+  }) {}
+  assertEquals(Point.byteLength, 8)
+  assertEquals(Point.byteAlign, 4)
+  assertEquals(Named.fields.name.byteOffset, 1)
+  assertEquals(Named.fields.where.byteOffset, 8)
+  assertEquals(Named.fields.id.byteOffset, 16)
+  assertEquals(Named.byteLength, 24)
+
+  const n = new Named({ byteLength: Named.byteLength })
+  n.name = "hello"
+  n.where.y = 2
+  assertEquals(n.name, "hello")
+  assertEquals(structDataView(n).getFloat32(12, true), 2)
+})
+
+Deno.test("fields of unknown size", () => {
+  assertThrows(
+    () => defineLayout({ a: (o) => substruct(Struct, o) }),
+    TypeError,
+    "'a'",
+  )
+})
@@ -6,3 +6,11 @@
 export type * from "./types.ts"
 export * from "./core.ts"
 export * from "./fields.ts"
+export * from "./layout.ts"
+export * from "./arrays.ts"
+export * from "./atomic.ts"
+export * from "./union.ts"
+export * from "./convert.ts"
+export * from "./compile.ts"
+export * from "./cstruct.ts"
+export * from "./emit.ts"
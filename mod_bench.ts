@@ -5,7 +5,16 @@
  */
 
 import { assertEquals } from "@std/assert/equals"
-import { defineStruct, f32, f64, string, u16, u32, u8 } from "./mod.ts"
+import {
+  compileStruct,
+  defineStruct,
+  f32,
+  f64,
+  string,
+  u16,
+  u32,
+  u8,
+} from "./mod.ts"
 
 const StructClass = defineStruct({
   x1: f32(0),
@@ -16,6 +25,8 @@ const StructClass = defineStruct({
   x6: string(19, 11),
 })
 
+const compiled = compileStruct(StructClass)
+
 const testObject = {
   x1: Math.fround(Math.SQRT2),
   x2: Math.PI,
@@ -73,6 +84,11 @@ Deno.bench("pack manually", { group: "pack" }, () => {
   assertEquals(new Uint8Array(result), testBytes)
 })
 
+Deno.bench("pack compiled", { group: "pack" }, () => {
+  const result = compiled.encode(testObject)
+  assertEquals(result, testBytes)
+})
+
 // Surprisingly, this turns out to be *faster* than the DataView version! I think it's because of V8 optimizations for a class instance vs an object literal.
 Deno.bench("unpack with Struct", { group: "unpack", baseline: true }, () => {
   const result = new StructClass({
@@ -96,3 +112,13 @@ Deno.bench("unpack manually", { group: "unpack" }, () => {
   assertEquals(result.x5, testObject.x5)
   assertEquals(result.x6, testObject.x6)
 })
+
+Deno.bench("unpack compiled", { group: "unpack" }, () => {
+  const result = compiled.decode(testBytes)
+  assertEquals(result.x1, testObject.x1)
+  assertEquals(result.x2, testObject.x2)
+  assertEquals(result.x3, testObject.x3)
+  assertEquals(result.x4, testObject.x4)
+  assertEquals(result.x5, testObject.x5)
+  assertEquals(result.x6, testObject.x6)
+})
@@ -1,23 +1,44 @@
 import {
+  array,
   bigintle,
   biguintle,
+  bit,
   bool,
+  bytes,
+  dynamic,
+  enumerated,
   f16,
   f32,
   f64,
+  flags,
   i16,
   i32,
   i64,
   i8,
+  ibits,
   string,
   substruct,
   typedArray,
   u16,
   u32,
+  u32be,
   u64,
   u8,
+  ubits,
+  variant,
 } from "./fields.ts"
-import { defineArray, defineStruct, Struct, structDataView } from "./core.ts"
+import {
+  defineArray,
+  defineStruct,
+  isResizable,
+  jsonSymbol,
+  resizeStruct,
+  Struct,
+  structBytes,
+  structDataView,
+} from "./core.ts"
+import { FieldArray } from "./arrays.ts"
+import { fromObject, toObject } from "./convert.ts"
 
 import {
   assert,
@@ -147,6 +168,82 @@ Deno.test("string", () => {
   assertEquals(c.hello, "abc\0def")
 })
 
+Deno.test("string formats", () => {
+  const bytes = new Uint8Array(24)
+  const Cls = defineStruct({
+    c: string(0, 6, { format: "null-terminated", overflow: "throw" }),
+    space: string(6, 6, { format: "space-padded" }),
+    pascal: string(12, 8, {
+      format: "length-prefixed",
+      prefixLength: 2,
+      littleEndian: false,
+    }),
+    short: string(20, 4),
+  })
+  const c = new Cls(bytes)
+
+  // bytes after the terminator are ignored
+  bytes.set([0x68, 0x69, 0, 0x78, 0x79, 0x7a])
+  assertEquals(c.c, "hi")
+  c.c = "hello"
+  assertEquals(bytes.subarray(0, 6), new TextEncoder().encode("hello\0"))
+  assertThrows(() => c.c = "hello!", RangeError)
+  assertEquals(c.c, "hello")
+
+  c.space = "ab"
+  assertEquals(bytes.subarray(6, 12), new TextEncoder().encode("ab    "))
+  assertEquals(c.space, "ab")
+
+  c.pascal = "xyz"
+  assertEquals([...bytes.subarray(12, 17)], [0, 3, 0x78, 0x79, 0x7a])
+  assertEquals(c.pascal, "xyz")
+  c.pascal = "abcdefgh"
+  assertEquals(c.pascal, "abcdef")
+
+  // truncation does not split characters
+  c.short = "abc\u00e9"
+  assertEquals(c.short, "abc")
+  assertEquals(bytes[23], 0)
+})
+
+Deno.test("string encodings", () => {
+  const bytes = new Uint8Array(32)
+  const Cls = defineStruct({
+    ascii: string(0, 4, { encoding: "ascii" }),
+    strict: string(4, 4, { encoding: "ascii", strict: true }),
+    latin1: string(8, 4, { encoding: "latin1" }),
+    wide: string(12, 8, { encoding: "utf-16le", format: "null-terminated" }),
+    big: string(20, 6, { encoding: "utf-16be", format: "space-padded" }),
+    emoji: string(26, 6, { encoding: "utf-16le" }),
+  })
+  const c = new Cls(bytes)
+
+  c.ascii = "a\u00e9"
+  assertEquals([...bytes.subarray(0, 4)], [0x61, 0x3f, 0, 0])
+  assertThrows(() => c.strict = "a\u00e9", TypeError)
+  bytes[4] = 0x80
+  assertThrows(() => c.strict, TypeError)
+
+  c.latin1 = "\u00e9t\u00e9"
+  assertEquals([...bytes.subarray(8, 12)], [0xe9, 0x74, 0xe9, 0])
+  assertEquals(c.latin1, "\u00e9t\u00e9")
+
+  // room for three code units and a terminator
+  c.wide = "abcd"
+  assertEquals(c.wide, "abc")
+  assertEquals([...bytes.subarray(12, 20)], [0x61, 0, 0x62, 0, 0x63, 0, 0, 0])
+
+  c.big = "x"
+  assertEquals([...bytes.subarray(20, 26)], [0, 0x78, 0, 0x20, 0, 0x20])
+  assertEquals(c.big, "x")
+
+  // truncation does not split surrogate pairs
+  c.emoji = "ab\u{1f600}"
+  assertEquals(c.emoji, "ab")
+  c.emoji = "a\u{1f600}"
+  assertEquals(c.emoji, "a\u{1f600}")
+})
+
 Deno.test("bool", () => {
   const bytes = new Uint8Array([0, -1])
   const Cls = defineStruct({
@@ -283,6 +380,124 @@ Deno.test("structArray", () => {
   assertEquals(el2, undefined)
 })
 
+Deno.test("structArray methods", () => {
+  class El extends defineStruct({ x: u8(0), y: u8(1) }) {}
+  class ElArray extends defineArray({ struct: El, length: 4 }) {}
+  assertEquals(ElArray.struct, El)
+  assertEquals(ElArray.byteStride, 2)
+  const buf = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7])
+  const ar = new ElArray(buf)
+
+  assertEquals(ar[1].y, 3)
+  assertEquals(ar.at(-1)?.x, 6)
+  assertEquals(ar.at(4), undefined)
+  assertEquals(ar[4], undefined)
+  assertThrows(() => ar.item(4), RangeError)
+  assertThrows(() => ar.item(-1), RangeError)
+  assertThrows(() => ar[4] = new El(), RangeError)
+
+  assertEquals(ar.map((el) => el.x), [0, 2, 4, 6])
+  assertEquals(ar.filter((el) => el.x > 2).length, 2)
+  assertEquals(ar.find((el) => el.y === 5)?.x, 4)
+  assertEquals(ar.findIndex((el) => el.y === 8), -1)
+  assert(ar.some((el) => el.x === 6))
+  assert(!ar.every((el) => el.x === 6))
+
+  // views share memory
+  const middle = ar.subarray(1, -1)
+  assertInstanceOf(middle, ElArray)
+  assertEquals(middle.length, 2)
+  middle[0].x = 20
+  assertEquals(buf[2], 20)
+  assertEquals(ar.subarray(3, 1).length, 0)
+
+  // structs are copied byte for byte, and plain objects property by property
+  ar[0] = ar[3]
+  assertEquals([...buf.subarray(0, 2)], [6, 7])
+  ar[0] = Object.assign(new El(), { x: 9 })
+  assertEquals([...buf.subarray(0, 2)], [9, 0])
+  Object.assign(ar, { 1: { y: 30 } })
+  assertEquals([...buf.subarray(2, 4)], [20, 30])
+
+  ar.copyWithin(2, 0, 2)
+  assertEquals([...buf], [9, 0, 20, 30, 9, 0, 20, 30])
+  ar.fill(ar[1], 2)
+  assertEquals([...buf], [9, 0, 20, 30, 20, 30, 20, 30])
+  ar.fill({ x: 1 }, -1)
+  assertEquals([...buf], [9, 0, 20, 30, 20, 30, 1, 30])
+  ar.set([{ y: 5 }], 3)
+  assertEquals(buf[7], 5)
+  assertThrows(() => ar.set([{}, {}], 3), RangeError)
+
+  // items with embedded structs are written recursively
+  class Dish
+    extends defineStruct({ name: string(0, 4), pos: substruct(El, 4) }) {}
+  class Menu extends defineArray({ struct: Dish }) {}
+  const menu = new Menu({ byteLength: 0, maxByteLength: 18 })
+  menu.push({ name: "soup", pos: { x: 1, y: 2 } })
+  assertEquals(menu[0].pos.y, 2)
+  Object.assign(menu, { 0: { name: "tea", pos: { x: 3 } } })
+  assertEquals([menu[0].name, menu[0].pos.x, menu[0].pos.y], ["tea", 3, 2])
+  menu.push({}, {})
+  menu.fill({ pos: { y: 4 } }, 1)
+  menu.set([{ pos: { x: 5 } }], 2)
+  assertEquals(
+    menu.map((dish) => [dish.pos.x, dish.pos.y]),
+    [[3, 2], [0, 4], [5, 4]],
+  )
+})
+
+Deno.test("resizable", () => {
+  class Entry extends defineStruct({ id: u16(0), level: u8(2) }, {
+    byteLength: 4,
+  }) {}
+  class Log extends defineArray({ struct: Entry }) {}
+
+  const log = new Log({ byteLength: 0, maxByteLength: 64 })
+  assertEquals(log.length, 0)
+  assertEquals(log.push({ id: 1 }, Object.assign(new Entry(), { id: 2 })), 2)
+  assertEquals(structDataView(log).buffer.byteLength, 8)
+  log[1].level = 3
+  assertEquals(log.map((e) => [e.id, e.level]), [[1, 0], [2, 3]])
+
+  const last = log.pop()
+  assertEquals([last?.id, last?.level], [2, 3])
+  assertEquals(log.length, 1)
+  assertEquals(log.pop()?.id, 1)
+  assertEquals(log.pop(), undefined)
+
+  // a failed push leaves the array as it was
+  log.push({ id: 4 })
+  assertThrows(() => log.push({ id: 5 }, { nope: 1 }), TypeError)
+  assertEquals(log.length, 1)
+  assertEquals(structDataView(log).buffer.byteLength, 4)
+  assertEquals(log[0].id, 4)
+  log.pop()
+
+  // a view of part of a resizable buffer tracks its length
+  const buffer = new ArrayBuffer(2, { maxByteLength: 18 })
+  const tail = new Log({ buffer, byteOffset: 2 })
+  tail.push({ id: 7 }, { id: 8 }, { id: 9 })
+  assertEquals(buffer.byteLength, 14)
+  tail.truncate(1)
+  assertEquals(buffer.byteLength, 6)
+  assertThrows(() => tail.truncate(2), RangeError)
+  assertThrows(() => tail.push({}, {}, {}, {}), RangeError)
+
+  // arrays of fixed length, or over a fixed-length view, cannot be resized
+  assertThrows(() => new Log(new Uint8Array(buffer)).push({}), TypeError)
+  assertThrows(() => log.subarray(0).push({}), TypeError)
+  // popping an empty array leaves its buffer alone
+  assertEquals(new Log(new Uint8Array(0)).pop(), undefined)
+
+  const header = new Entry({ buffer: new ArrayBuffer(4, { maxByteLength: 8 }) })
+  assert(isResizable(header))
+  resizeStruct(header, 8)
+  assertEquals(structDataView(header).byteLength, 8)
+  assert(!isResizable(new Entry()))
+  assertThrows(() => resizeStruct(new Entry(), 8), TypeError)
+})
+
 Deno.test("dynamicLength", () => {
   const El = defineStruct({
     x: i8(0),
@@ -386,3 +601,637 @@ Deno.test("typedArray", () => {
   const f32s2 = new Float32Array([1 / 3, 1 / 6, 1 / 9])
   assertEquals(new Float32Array(buf.buffer.slice(4, 16)), f32s2)
 })
+
+Deno.test("typedArray assignment", () => {
+  const buf = new Uint8Array(40)
+  class S extends defineStruct({
+    n: u8(0),
+    fixed: typedArray(1, { species: Uint8Array, length: 3 }),
+    data: typedArray(4, { species: Uint16Array, length: "n" }),
+    live: typedArray(4, { species: Uint16Array, length: "n", live: true }),
+  }) {}
+  const s = new S(buf)
+
+  Object.assign(s, { fixed: [1, 2, 3] })
+  assertEquals([...buf.subarray(0, 4)], [0, 1, 2, 3])
+  assertThrows(() => {
+    s.fixed = new Uint8Array(2)
+  }, RangeError)
+  assertEquals([...s.fixed], [1, 2, 3])
+
+  // assigning updates the length property
+  s.data = new Uint16Array([7, 8])
+  assertEquals(s.n, 2)
+  assertEquals([...s.data], [7, 8])
+  assertThrows(() => {
+    s.data = new Uint16Array(100)
+  }, RangeError)
+  assertEquals(s.n, 2)
+  // a failed copy leaves the length as it was
+  assertThrows(() => {
+    s.data = [Symbol("not a number")] as unknown as Uint16Array
+  }, TypeError)
+  assertEquals(s.n, 2)
+
+  const stale = s.data
+  const live = s.live
+  assertInstanceOf(live, Uint16Array)
+  assertEquals(live.length, 2)
+  s.n = 3
+  assertEquals(stale.length, 2)
+  assertEquals(live.length, 3)
+  assertEquals([...live], [7, 8, 0])
+  live[2] = 9
+  assertEquals(s.data[2], 9)
+  assertEquals(live.indexOf(9), 2)
+})
+
+Deno.test("array", () => {
+  class Vec2 extends defineStruct({ x: i16(0), y: i16(2) }) {}
+  const buffer = new Uint8Array(32)
+  class Cls extends defineStruct({
+    count: u8(0),
+    points: array(2, { item: Vec2, length: 2 }),
+    names: array(10, { item: (o) => string(o, 4), length: 2 }),
+    matrix: array(18, {
+      item: (o) => array(o, { item: u8, length: 3 }),
+      length: 2,
+    }),
+    nibbles: array(24, {
+      item: (o) => ubits(o, { bitOffset: 0, bitLength: 4 }),
+      length: "count",
+    }),
+  }, { toJSON: true }) {}
+  assertEquals(Cls.fields.points, {
+    byteOffset: 2,
+    byteLength: 8,
+    byteAlign: 2,
+  })
+  assertEquals(Cls.fields.nibbles, undefined)
+  assertThrows(
+    () => array(0, { item: u8, length: 2, byteStride: 0 }),
+    RangeError,
+  )
+  const c = new Cls(buffer)
+
+  const points = c.points
+  assertInstanceOf(points, FieldArray)
+  points[1].y = -1
+  assertEquals(buffer.subarray(8, 10), new Uint8Array([0xff, 0xff]))
+  points[0] = points[1]
+  assertEquals(points[0].y, -1)
+  Object.assign(c, { points: [{ x: 1 }, { x: 2, y: 3 }] })
+  assertEquals(JSON.parse(JSON.stringify(c)), {
+    count: 0,
+    points: [{ x: 1, y: -1 }, { x: 2, y: 3 }],
+    names: ["", ""],
+    matrix: [[0, 0, 0], [0, 0, 0]],
+    nibbles: [],
+  })
+
+  Object.assign(c, { names: ["ab", "cdef"] })
+  assertEquals([...c.names], ["ab", "cdef"])
+  assertThrows(() => Object.assign(c, { names: ["a"] }), RangeError)
+  assertThrows(() => c.names[2] = "x", RangeError)
+  assertEquals(c.names[2], undefined)
+
+  c.matrix[1][2] = 7
+  assertEquals(buffer[23], 7)
+  assertEquals(c.matrix.toArray().map((row) => row.toArray()), [[0, 0, 0], [
+    0,
+    0,
+    7,
+  ]])
+
+  c.count = 3
+  Object.assign(c, { nibbles: [1, 2, 0x13] })
+  assertEquals([...buffer.subarray(24, 27)], [1, 2, 3])
+
+  // items with embedded structs are written recursively
+  class Marker extends defineStruct({ id: u8(0), pos: substruct(Vec2, 2) }) {}
+  class Chart extends defineStruct({
+    markers: array(0, { item: Marker, length: 2 }),
+  }) {}
+  const map = new Chart()
+  map.markers[1] = { id: 1, pos: { x: 2, y: 3 } } as unknown as Marker
+  assertEquals(map.markers[1].pos.y, 3)
+  fromObject(map, { markers: [{ pos: { x: 4 } }, { id: 5 }] })
+  assertEquals(map.markers[0].pos.x, 4)
+  assertEquals(map.markers[1].id, 5)
+  assertEquals(map.markers[1].pos.y, 3)
+})
+
+Deno.test("bytes", () => {
+  const buffer = new Uint8Array(12)
+  const Cls = defineStruct({
+    mac: bytes(0, 6),
+    digest: bytes(6, 4, { hex: true }),
+  })
+  const c = new Cls(buffer)
+
+  // the view is live
+  const mac = c.mac
+  Object.assign(c, { mac: "00:1a:2b:3c:4d:5e" })
+  assertEquals([...mac], [0x00, 0x1a, 0x2b, 0x3c, 0x4d, 0x5e])
+  c.mac = new Uint8Array([1, 2, 3, 4, 5, 6])
+  assertEquals([...buffer.subarray(0, 6)], [1, 2, 3, 4, 5, 6])
+  Object.assign(c, { mac: [6, 5, 4, 3, 2, 1] })
+  assertEquals(mac[0], 6)
+  assertThrows(() => c.mac = new Uint8Array(5), RangeError)
+  assertThrows(() => Object.assign(c, { mac: "00:1a:2b:3c:4d:5" }), TypeError)
+
+  c.digest = "DEADbeef"
+  assertEquals(c.digest, "deadbeef")
+  assertEquals([...buffer.subarray(6, 10)], [0xde, 0xad, 0xbe, 0xef])
+  assertThrows(() => c.digest = "dead", RangeError)
+})
+
+Deno.test("dynamic", () => {
+  // a PNG-style chunk: the checksum follows variable-length data
+  class Chunk extends defineStruct({
+    length: u32be(0),
+    type: string(4, 4),
+    data: typedArray(8, { species: Uint8Array, length: "length" }),
+    crc: dynamic((s: { length: number }) => 8 + s.length, u32be),
+  }) {}
+  const bytes = new Uint8Array(16)
+  const chunk = new Chunk(bytes)
+  chunk.type = "tEXt"
+  Object.assign(chunk, { data: [1, 2, 3] })
+  chunk.crc = 0xdeadbeef
+  assertEquals(chunk.length, 3)
+  assertEquals([...bytes.subarray(11, 15)], [0xde, 0xad, 0xbe, 0xef])
+  chunk.length = 0
+  assertEquals(chunk.crc, 0x01020300 | 0xde)
+
+  // an offset stored in a header, with lengths from other fields
+  class File extends defineStruct({
+    nameOffset: u8(0),
+    nameLength: u8(1),
+    tableOffset: u8(2),
+    count: u8(3),
+    name: dynamic(
+      "nameOffset",
+      (o, s: { nameOffset: number; nameLength: number }) =>
+        string(o, s.nameLength),
+    ),
+    table: dynamic("tableOffset", (o) =>
+      typedArray(o, {
+        species: Uint8Array,
+        length: (s: { count: number }) => s.count,
+      })),
+  }) {}
+  const file = new File(new Uint8Array(32))
+  Object.assign(file, { nameOffset: 4, nameLength: 5, tableOffset: 12 })
+  file.name = "hello world"
+  assertEquals(file.name, "hello")
+  // a computed length is not updated on assignment
+  assertThrows(() => Object.assign(file, { table: [9, 8, 7] }), RangeError)
+  file.count = 3
+  Object.assign(file, { table: [9, 8, 7] })
+  file.count = 2
+  assertEquals([...file.table], [9, 8])
+
+  const _name: string = file.name
+  const _crc: number = chunk.crc
+
+  file.tableOffset = 31
+  assertThrows(() => file.table, RangeError)
+})
+
+Deno.test("variant", () => {
+  class Ping extends defineStruct({ seq: u16(0) }) {}
+  class Data extends defineStruct({ length: u8(0), value: u32(4) }) {}
+  class Message extends defineStruct({
+    kind: u8(0),
+    body: variant(4, { tag: "kind", variants: { 1: Ping, 2: Data } }),
+  }, { toJSON: true }) {}
+  assertEquals(Message.byteLength, 12)
+  assertEquals(Message.fields.body, {
+    byteOffset: 4,
+    byteLength: 8,
+    byteAlign: 4,
+  })
+
+  const bytes = new Uint8Array(12)
+  const message = new Message(bytes)
+  assertEquals(message.body.tag, 0)
+  assertThrows(() => message.body.value, RangeError, "unknown variant tag 0")
+  assertEquals(JSON.parse(JSON.stringify(message)), {
+    kind: 0,
+    body: { tag: 0 },
+  })
+  assertEquals<unknown>(toObject(message), { kind: 0, body: { tag: 0 } })
+  bytes.set([1, 0, 0, 0, 7, 0])
+  const body = message.body
+  assertEquals(body.tag, 1)
+  assertInstanceOf(body.value, Ping)
+  if (body.tag === 1) {
+    assertEquals(body.value.seq, 7)
+  }
+
+  // switching variants copies in the given properties
+  Object.assign(message, { body: { tag: 2, value: { value: 0x01020304 } } })
+  assertEquals(message.kind, 2)
+  assertEquals([...bytes.subarray(4)], [7, 0, 0, 0, 4, 3, 2, 1])
+  const data = message.body
+  assert(data.tag === 2)
+  assertEquals(data.value.value, 0x01020304)
+
+  assertThrows(() => {
+    Object.assign(message, { body: { tag: 3 } })
+  }, RangeError)
+  assertEquals(message.kind, 2)
+
+  // clearing zeroes the payload, and structs are copied byte for byte
+  class Cleared extends defineStruct({
+    kind: u8(0),
+    body: variant(4, {
+      tag: "kind",
+      variants: { 1: Ping, 2: Data },
+      clear: true,
+    }),
+  }) {}
+  const cleared = new Cleared(new Uint8Array(12))
+  cleared.body = message.body
+  assertEquals(cleared.kind, 2)
+  assertEquals([...structBytes(cleared, 4)], [7, 0, 0, 0, 4, 3, 2, 1])
+  Object.assign(cleared, { body: { tag: 1 } })
+  assertEquals([...structBytes(cleared, 4)], [0, 0, 0, 0, 0, 0, 0, 0])
+})
+
+Deno.test("jsonSchema", () => {
+  class Point extends defineStruct({ x: i16(0), y: i16(2) }) {}
+  class S extends defineStruct({
+    tag: u8(0),
+    kind: enumerated(u8(1), { on: 1, off: 0 }),
+    small: ubits(2, { bitOffset: 0, bitLength: 3 }),
+    name: string(4, 8),
+    id: u64(16),
+    ratio: f32(24),
+    origin: substruct(Point, 28),
+    data: typedArray(32, { species: Uint16Array, length: 2 }),
+  }) {}
+  assertEquals(S.jsonSchema(), {
+    type: "object",
+    properties: {
+      tag: { type: "integer", minimum: 0, maximum: 255 },
+      kind: {
+        anyOf: [{ enum: ["on", "off"] }, {
+          type: "integer",
+          minimum: 0,
+          maximum: 255,
+        }],
+      },
+      small: { type: "integer", minimum: 0, maximum: 7 },
+      name: { type: "string", maxLength: 8 },
+      id: { type: "string", pattern: "^[0-9]+$" },
+      ratio: { type: "number" },
+      origin: {
+        type: "object",
+        properties: {
+          x: { type: "integer", minimum: -32768, maximum: 32767 },
+          y: { type: "integer", minimum: -32768, maximum: 32767 },
+        },
+        required: ["x", "y"],
+        additionalProperties: false,
+      },
+      data: {
+        type: "array",
+        items: { type: "integer", minimum: 0, maximum: 65535 },
+        minItems: 2,
+        maxItems: 2,
+      },
+    },
+    required: ["tag", "kind", "small", "name", "id", "ratio", "origin", "data"],
+    additionalProperties: false,
+  })
+
+  const Points = defineArray({ struct: Point, length: 3 })
+  assertEquals(Points.jsonSchema?.(), {
+    type: "array",
+    items: Point.jsonSchema(),
+    minItems: 3,
+    maxItems: 3,
+  })
+})
+
+Deno.test("toJSON", () => {
+  class Point extends defineStruct({ x: i16(0), y: i16(2) }) {}
+  class S extends defineStruct({
+    id: u64(0),
+    flags: flags(u8(8), { a: 1, b: 2 }),
+    points: substruct(defineArray({ struct: Point, length: 2 }), 12),
+    data: typedArray(24, { species: BigInt64Array, length: 1 }),
+  }, { toJSON: true }) {}
+  const s = new S()
+  s.id = 2n ** 63n
+  s.flags.b = true
+  s.points.element(1).x = -4
+  s.data[0] = -1n
+  assertEquals(JSON.parse(JSON.stringify(s)), {
+    id: "9223372036854775808",
+    flags: { a: false, b: true },
+    points: [{ x: 0, y: 0 }, { x: -4, y: 0 }],
+    data: ["-1"],
+  })
+
+  // without the option, the JSON form is only available by symbol
+  const p = new Point()
+  assertEquals("toJSON" in p, false)
+  assertEquals(p[jsonSymbol](), { x: 0, y: 0 })
+  assertEquals(JSON.stringify(s.points), '[{"x":0,"y":0},{"x":-4,"y":0}]')
+
+  // so a field may be named toJSON, unless the option is given
+  const Named = defineStruct({ toJSON: u8(0) })
+  assertEquals(new Named().toJSON, 0)
+  assertThrows(
+    () => defineStruct({ toJSON: u8(0) }, { toJSON: true }),
+    TypeError,
+  )
+})
+
+Deno.test("static layout", () => {
+  class Point extends defineStruct({ x: f32(0), y: f32(4) }) {}
+  assertEquals(Point.byteLength, 8)
+  assertEquals(Point.byteAlign, 4)
+  assertEquals(Point.fields.y, { byteOffset: 4, byteLength: 4, byteAlign: 4 })
+
+  class Labeled extends defineStruct({
+    id: u16(0),
+    label: string(2, 10),
+    where: substruct(Point, 12),
+  }) {}
+  assertEquals(Labeled.byteLength, 20)
+  assertEquals(Labeled.fields.where, {
+    byteOffset: 12,
+    byteLength: 8,
+    byteAlign: 4,
+  })
+
+  // size can be declared explicitly
+  const Padded = defineStruct({ x: u8(0) }, { byteLength: 4 })
+  assertEquals(Padded.byteLength, 4)
+  assertEquals(Padded.byteAlign, 1)
+
+  // fields without a fixed layout are omitted
+  const Dynamic = defineStruct({
+    n: u8(0),
+    data: typedArray(1, { species: Uint8Array, length: "n" }),
+  })
+  assertEquals(Object.keys(Dynamic.fields), ["n"])
+})
+
+Deno.test("static layout defaults", () => {
+  class Point extends defineStruct({ x: f32(0), y: f32(4) }) {}
+  const p = new Point()
+  assertEquals(structDataView(p).byteLength, 8)
+  const p2 = new Point({ byteOffset: 4 })
+  assertEquals(structDataView(p2).byteOffset, 4)
+  assertEquals(structDataView(p2).byteLength, 8)
+
+  // substruct takes its length from the inner struct
+  class Segment extends defineStruct({
+    a: substruct(Point, 0),
+    b: substruct(Point, 8),
+  }) {}
+  const seg = new Segment()
+  assertEquals(structDataView(seg).byteLength, 16)
+  assertEquals(structDataView(seg.a).byteLength, 8)
+  seg.b.y = 5
+  assertEquals(structDataView(seg).getFloat32(12, true), 5)
+
+  // defineArray takes its stride from the item struct
+  class Polyline extends defineArray({ struct: Point, length: 3 }) {}
+  assertEquals(Polyline.byteLength, 24)
+  assertEquals(Polyline.byteAlign, 4)
+  const buf = new Float32Array(6)
+  const line = new Polyline(buf)
+  assertEquals(line.length, 3)
+  const [, , last] = line
+  last.x = 7
+  assertEquals(buf[4], 7)
+
+  assertThrows(() => defineArray({ struct: Struct }), TypeError)
+
+  // a struct with a field of no fixed place has no known size,
+  // so an embedded one extends to the end of its parent
+  class Opaque extends defineStruct({
+    tag: u8(0),
+    rest: typedArray(1, { species: Uint8Array, length: undefined }),
+  }) {}
+  assertEquals(Opaque.byteLength, undefined)
+  assertThrows(() => defineArray({ struct: Opaque }), TypeError)
+  class Parent extends defineStruct({ inner: substruct(Opaque, 1) }, {
+    byteLength: 8,
+  }) {}
+  assertEquals(structDataView(new Parent().inner).byteLength, 7)
+  assertEquals(new Parent().inner.rest.length, 6)
+})
+
+Deno.test("validation", () => {
+  // not validated unless requested
+  defineStruct({ a: u32(14) }, { byteLength: 16 })
+
+  assertThrows(
+    () => defineStruct({ a: u32(14) }, { byteLength: 16, validate: true }),
+    RangeError,
+    "field 'a' (bytes 14 to 18) extends past the end of the struct (16 bytes)",
+  )
+  assertThrows(
+    () =>
+      defineStruct({ a: u32(0), b: u8(4), c: u16(3) }, {
+        byteLength: 8,
+        validate: true,
+      }),
+    RangeError,
+    "fields 'a' (bytes 0 to 4) and 'c' (bytes 3 to 5) overlap",
+  )
+
+  const Word = defineStruct({
+    asU32: u32(0),
+    asF32: f32(0),
+    lowByte: u8(0),
+    next: u32(4),
+  }, {
+    byteLength: 8,
+    validate: true,
+    unions: [["asU32", "asF32", "lowByte"]],
+  })
+  assertEquals(Word.byteLength, 8)
+
+  assertThrows(
+    () =>
+      defineStruct({ a: u32(0), b: u32(0), c: u8(0) }, {
+        validate: true,
+        unions: [["a", "b"]],
+      }),
+    RangeError,
+    "'c'",
+  )
+})
+
+Deno.test("bitfields", () => {
+  const bytes = new Uint8Array(5)
+  class Header extends defineStruct({
+    version: ubits(0, { bitOffset: 5, bitLength: 3 }),
+    flagA: bit(0, 0),
+    flagB: bit(0, 1),
+    delta: ibits(0, { bitOffset: 2, bitLength: 3 }),
+    length: ubits(1, { bitOffset: 4, bitLength: 12, byteLength: 2 }),
+    kind: ubits(1, { bitOffset: 0, bitLength: 4, byteLength: 2 }),
+    tag: ubits(3, {
+      bitOffset: 0,
+      bitLength: 12,
+      byteLength: 2,
+      littleEndian: false,
+    }),
+  }, { validate: true, byteLength: 5 }) {}
+  const h = new Header(bytes)
+
+  h.version = 5
+  assertEquals(bytes[0], 0b10100000)
+  h.flagB = true
+  assertEquals(bytes[0], 0b10100010)
+  assertEquals(h.flagA, false)
+  assertEquals(h.flagB, true)
+  h.delta = -1
+  assertEquals(bytes[0], 0b10111110)
+  assertEquals(h.delta, -1)
+  h.delta = 3
+  assertEquals(h.delta, 3)
+  h.delta = -4
+  assertEquals(h.delta, -4)
+  assertEquals(h.version, 5)
+
+  // values are truncated to the field width
+  h.version = 9
+  assertEquals(h.version, 1)
+
+  h.length = 0xabc
+  assertEquals([bytes[1], bytes[2]], [0xc0, 0xab])
+  h.kind = 0xf
+  assertEquals([bytes[1], bytes[2]], [0xcf, 0xab])
+  assertEquals(h.length, 0xabc)
+
+  // big-endian container puts the low bits in the later byte
+  h.tag = 0xabc
+  assertEquals([bytes[3], bytes[4]], [0x0a, 0xbc])
+
+  const Word = defineStruct({
+    all: ubits(0, { bitOffset: 0, bitLength: 32, byteLength: 4 }),
+    top: ibits(0, { bitOffset: 16, bitLength: 16, byteLength: 4 }),
+  })
+  const w = new Word()
+  w.all = 0xffff0001
+  assertEquals(w.all, 0xffff0001)
+  assertEquals(w.top, -1)
+
+  assertThrows(() => ubits(0, { bitOffset: 4, bitLength: 5 }), RangeError)
+  assertThrows(
+    () =>
+      defineStruct({
+        a: ubits(0, { bitOffset: 0, bitLength: 4 }),
+        b: ubits(0, { bitOffset: 3, bitLength: 4 }),
+      }, { validate: true }),
+    RangeError,
+    "overlap",
+  )
+})
+
+Deno.test("enum", () => {
+  const bytes = new Uint8Array(8)
+  class Packet extends defineStruct({
+    kind: enumerated(u8(0), { ping: 1, pong: 2, ack: 3 }),
+    strict: enumerated(u8(1), { a: 1, b: 2 }, { unknown: "throw" }),
+    sentinel: enumerated(u16(2), { a: 1 }, {
+      unknown: { sentinel: "other" },
+    }),
+    big: enumerated(u64(0), { x: 0n }, { unknown: { sentinel: null } }),
+  }) {}
+  const p = new Packet(bytes)
+  // unknown values read as numbers by default, so that zeroed structs serialize
+  assertEquals(p.kind, 0)
+  p.kind = "pong"
+  assertEquals(bytes[0], 2)
+  assertEquals(p.kind, "pong")
+  const kind: "ping" | "pong" | "ack" | number = p.kind
+  assertEquals(kind, "pong")
+  assertThrows(() => {
+    // @ts-expect-error not a valid name
+    p.kind = "nope"
+  }, RangeError)
+  assertEquals(p.kind, "pong")
+  p.kind = 9
+  assertEquals(p.kind, 9)
+
+  assertThrows(() => p.strict, RangeError, "unknown enum value 0")
+  p.strict = "b"
+  assertEquals(p.strict, "b")
+  const strict: "a" | "b" = p.strict
+  assertEquals(strict, "b")
+  assertThrows(() => {
+    // @ts-expect-error not a valid name
+    p.strict = 1
+  }, RangeError)
+
+  assertEquals(p.sentinel, "other")
+  p.sentinel = "a"
+  assertEquals(p.sentinel, "a")
+  assertThrows(() => {
+    p.sentinel = "other"
+  }, RangeError)
+
+  assertEquals(p.big, null)
+  bytes.fill(0)
+  assertEquals(p.big, "x")
+})
+
+Deno.test("flags", () => {
+  const bytes = new Uint8Array(10)
+  class File extends defineStruct({
+    mode: flags(u16(0), { read: 0x1, write: 0x2, exec: 0x100 }),
+    wide: flags(u64(2), { low: 1n, high: 1n << 63n }),
+  }) {}
+  const f = new File(bytes)
+  assertEquals({ ...f.mode }, { read: false, write: false, exec: false })
+
+  const mode = f.mode
+  mode.write = true
+  assertEquals(bytes[0], 0x2)
+  // the view is live
+  bytes[1] = 0x1
+  assertEquals(mode.exec, true)
+  assertEquals(f.mode.exec, true)
+  assertThrows(() => {
+    // @ts-expect-error not a flag
+    mode.other = true
+  })
+
+  // unknown bits survive assignment
+  bytes[0] |= 0x80
+  f.mode = { read: true, write: false, exec: false }
+  assertEquals([bytes[0], bytes[1]], [0x81, 0x00])
+  Object.assign(f, { mode: new Set(["write", "exec"]) })
+  assertEquals([bytes[0], bytes[1]], [0x82, 0x01])
+  assertThrows(() => Object.assign(f, { mode: ["bogus"] }), RangeError)
+  // the property is typed by what it reads, so only the descriptor's setter is typed to accept names
+  // @ts-expect-error an iterable of names is not a FlagSet
+  f.mode = ["exec"]
+  assertEquals([bytes[0], bytes[1]], [0x80, 0x01])
+  for (const value of ["read", null, 1]) {
+    assertThrows(
+      () => Object.assign(f, { mode: value }),
+      TypeError,
+      "flags field 'mode' must be assigned an object or an iterable of names",
+    )
+  }
+  flags(u16(0), { read: 0x1, write: 0x2 }).set.call(f, ["read"])
+  assertEquals([bytes[0], bytes[1]], [0x81, 0x01])
+
+  f.wide = { low: false, high: true }
+  assertEquals(bytes[9], 0x80)
+  assertEquals(f.wide.high, true)
+  f.wide.low = true
+  assertEquals(bytes[2], 0x01)
+})
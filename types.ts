@@ -3,10 +3,12 @@
  * @module
  */
 
-import type { dataViewSymbol } from "./core.ts"
+import type { dataViewSymbol, littleEndianSymbol, Struct } from "./core.ts"
+import type { NumberType } from "./arrays.ts"
 
 export type AnyStruct = {
   readonly [dataViewSymbol]: DataView
+  readonly [littleEndianSymbol]?: boolean
 }
 // deno-lint-ignore no-explicit-any
 export type Constructor<T> = { new (...args: any[]): T }
@@ -32,9 +34,98 @@ export type TPropertyDescriptor<T> = {
 }
 
 export type MixinFromProps<Props extends object> = {
-  -readonly [K in keyof Props]: Props[K] extends TPropertyDescriptor<infer V>
-    ? V
-    : unknown
+  -readonly [K in keyof Props]: PropertyValue<Props[K]>
+}
+
+// typed by the getter if there is one, as the setter may accept more
+type PropertyValue<D> = D extends { get?(): infer V }
+  ? unknown extends V ? D extends TPropertyDescriptor<infer W> ? W : unknown
+  : V
+  : D extends TPropertyDescriptor<infer V> ? V
+  : unknown
+
+/**
+ * Where a field lives within the memory of a struct
+ */
+export type FieldLayout = {
+  /** offset in bytes from the start of the struct */
+  readonly byteOffset: number
+  /** number of bytes occupied by the field */
+  readonly byteLength: number
+  /** alignment in bytes required by the field (e.g. 4 for a 32-bit integer) */
+  readonly byteAlign: number
+  /** for a bitfield, position of its lowest bit within the unsigned integer spanning the above bytes */
+  readonly bitOffset?: number
+  /** for a bitfield, number of bits it occupies */
+  readonly bitLength?: number
+}
+
+/**
+ * What a field holds, for declaring it in other languages
+ * - a number type, like `"u32"` or `"f64"`, in the byte order of the struct
+ * - `{ number, littleEndian }`: a number in a fixed byte order, whatever the byte order of the struct
+ * - `"bool"`: a byte holding 0 or 1
+ * - `"char"`: one byte of a string
+ * - `{ struct }`: an embedded struct
+ * - `{ array, length }`: consecutive items of another type
+ */
+export type FieldType =
+  | NumberType
+  | { readonly number: NumberType; readonly littleEndian: boolean }
+  | "bool"
+  | "char"
+  | { readonly struct: StructConstructor<object> }
+  | { readonly array: FieldType; readonly length: number }
+
+/**
+ * How a field stores its value, if it is exactly a number or boolean read from its bytes with a `DataView`
+ */
+export type PrimitiveAccess = {
+  /** number type, or `"bool"` for a byte which is true if nonzero */
+  readonly type: NumberType | "bool"
+  /** byte order of the field, if it does not follow the struct */
+  readonly littleEndian?: boolean
+}
+
+/**
+ * Reading and writing a field of a struct located at `byteOffset` in `dv`, as the field's accessors would for a view of that struct in the given byte order.
+ * Values are plain, as in `toObject`
+ */
+export type FieldAccess<T> = {
+  read(dv: DataView, byteOffset: number, littleEndian: boolean): T
+  write(
+    dv: DataView,
+    byteOffset: number,
+    value: T,
+    littleEndian: boolean,
+  ): void
+}
+
+/**
+ * JSON Schema describing the JSON form of a field or struct, as produced by `jsonSymbol`
+ */
+export type JsonSchema = {
+  readonly type?:
+    | "object"
+    | "array"
+    | "string"
+    | "integer"
+    | "number"
+    | "boolean"
+  readonly minimum?: number
+  readonly maximum?: number
+  readonly maxLength?: number
+  readonly pattern?: string
+  readonly const?: unknown
+  readonly enum?: readonly unknown[]
+  readonly items?: JsonSchema
+  readonly minItems?: number
+  readonly maxItems?: number
+  readonly properties?: { readonly [key: string]: JsonSchema }
+  readonly required?: readonly string[]
+  readonly additionalProperties?: boolean
+  readonly oneOf?: readonly JsonSchema[]
+  readonly anyOf?: readonly JsonSchema[]
 }
 
 /**
@@ -43,13 +134,56 @@ export type MixinFromProps<Props extends object> = {
 export type StructPropertyDescriptor<T> =
   & ThisType<AnyStruct>
   & TPropertyDescriptor<T>
+  & {
+    /** Location of the field, if it occupies a fixed range of bytes */
+    readonly layout?: FieldLayout
+    /** Shape of the field's value in the JSON form of the struct, if known */
+    readonly schema?: JsonSchema
+    /** What the bytes of the field hold, if it can be expressed as a `FieldType` */
+    readonly type?: FieldType
+    /** How the value is read from the field's bytes, if it is a plain number or boolean */
+    readonly primitive?: PrimitiveAccess
+    /** How the value is read and written without a view of the struct, if the field supports it */
+    readonly access?: FieldAccess<T>
+  }
 
 export type StructConstructor<T extends object> = {
   new (arg: {
     readonly buffer: ArrayBufferLike
     readonly byteOffset: number
     readonly byteLength: number
+    readonly littleEndian?: boolean
   }): T
+  /** size in bytes of the struct, if known */
+  readonly byteLength?: number
+  /** alignment in bytes required by the struct, if known */
+  readonly byteAlign?: number
+  /** byte order of the struct, if fixed by its declaration */
+  readonly littleEndian?: boolean
+  /** JSON Schema describing the JSON form of the struct, if known */
+  jsonSchema?(): JsonSchema
+}
+
+/**
+ * Static size and layout information of a struct class
+ */
+export type StructStatics<Keys extends PropertyKey> = {
+  /** size in bytes of the struct, unless some field has no fixed place and no size was given */
+  readonly byteLength: number | undefined
+  /** alignment in bytes required by the struct */
+  readonly byteAlign: number
+  /** location of each field that occupies a fixed range of bytes */
+  readonly fields: { readonly [K in Keys]?: FieldLayout }
+  /** what each field holds, if known */
+  readonly fieldTypes: { readonly [K in Keys]?: FieldType }
+  /** how each field which is a plain number or boolean is read */
+  readonly primitiveFields: { readonly [K in Keys]?: PrimitiveAccess }
+  /** how each field which can be read and written without a view of the struct is */
+  readonly fieldAccess: { readonly [K in Keys]?: FieldAccess<unknown> }
+  /** byte order of the struct if declared; otherwise it is inherited from an enclosing struct or defaults to little-endian */
+  readonly littleEndian: boolean | undefined
+  /** JSON Schema describing the JSON form of an instance, as produced by `jsonSymbol` */
+  jsonSchema(): JsonSchema
 }
 
 export type TypedArraySpecies<T> = {
@@ -59,4 +193,150 @@ export type TypedArraySpecies<T> = {
     length?: number,
   ): T
   readonly BYTES_PER_ELEMENT: number
+  readonly prototype: T
+}
+
+/**
+ * Options for `defineStruct`
+ */
+export type StructOptions<Keys extends PropertyKey> = {
+  /** size in bytes of the struct. Defaults to the end of the last field, if every field has a fixed place */
+  readonly byteLength?: number
+  /** alignment in bytes of the struct. Defaults to the largest alignment of any field */
+  readonly byteAlign?: number
+  /**
+   * Check when the struct is defined that every field with a known layout lies within `byteLength`
+   * and that no two fields overlap
+   */
+  readonly validate?: boolean
+  /** groups of fields which may overlap each other, like the members of a C union */
+  readonly unions?: readonly (readonly Keys[])[]
+  /**
+   * Byte order for fields that do not specify their own (e.g. `u32` but not `u32be`).
+   * If omitted, a struct embedded in another struct or array uses the byte order of its parent, otherwise little-endian
+   */
+  readonly littleEndian?: boolean
+  /**
+   * Define a `toJSON` method on instances, so that `JSON.stringify` gives their JSON form.
+   * No field may then be named `toJSON`
+   */
+  readonly toJSON?: boolean
 }
+
+/**
+ * Class returned by `defineStruct`.
+ * Since its size is known, it can be constructed without specifying a `byteLength`
+ */
+export type DefinedStruct<Props extends PropertyDescriptorMap> =
+  & SubclassWithProperties<typeof Struct, MixinFromProps<Props>>
+  & StructStatics<keyof Props>
+  & {
+    new (
+      arg?: {
+        readonly buffer?: undefined
+        readonly byteOffset?: number
+        readonly byteLength?: number
+        readonly maxByteLength?: number
+        readonly littleEndian?: boolean
+      },
+    ): Struct & { [K in keyof MixinFromProps<Props>]: MixinFromProps<Props>[K] }
+  }
+
+/**
+ * Instance of a class made by `defineArray`: a live view of consecutive structs,
+ * which can be read by index like an array, e.g. `points[0].x`
+ */
+export type StructArray<Item extends object> =
+  & Struct
+  & Iterable<Item>
+  & {
+    /** Items of the array */
+    [index: number]: Item
+    /** Number of items in the array */
+    readonly length: number
+    /** A view of the item at the given index, which must be in bounds */
+    item(index: number): Item
+    /** @deprecated use item() instead */
+    element(index: number): Item
+    /** A view of the item at the given index, counting back from the end if negative, or undefined if out of bounds */
+    at(index: number): Item | undefined
+    /** A view of a range of items, sharing the same memory */
+    subarray(start?: number, end?: number): StructArray<Item>
+    /** Copy structs or plain objects into consecutive items */
+    set(values: Iterable<Item | object>, offset?: number): void
+    /** Copy views of the items into a new plain array */
+    toArray(): Item[]
+    /** Copy the bytes of a range of items to another position in the array */
+    copyWithin(target: number, start: number, end?: number): StructArray<Item>
+    /** Copy a struct or plain object into every item of a range */
+    fill(value: Item | object, start?: number, end?: number): StructArray<Item>
+    /** Append items to an array over a resizable buffer, growing the buffer */
+    push(...values: (Item | object)[]): number
+    /** Remove the last item of an array over a resizable buffer, returning a copy of it */
+    pop(): Item | undefined
+    /** Remove items from the end of an array over a resizable buffer */
+    truncate(length: number): void
+    forEach(
+      callback: (item: Item, index: number, array: StructArray<Item>) => void,
+    ): void
+    map<U>(
+      callback: (item: Item, index: number, array: StructArray<Item>) => U,
+    ): U[]
+    filter(
+      predicate: (
+        item: Item,
+        index: number,
+        array: StructArray<Item>,
+      ) => unknown,
+    ): Item[]
+    find(
+      predicate: (
+        item: Item,
+        index: number,
+        array: StructArray<Item>,
+      ) => unknown,
+    ): Item | undefined
+    findIndex(
+      predicate: (
+        item: Item,
+        index: number,
+        array: StructArray<Item>,
+      ) => unknown,
+    ): number
+    some(
+      predicate: (
+        item: Item,
+        index: number,
+        array: StructArray<Item>,
+      ) => unknown,
+    ): boolean
+    every(
+      predicate: (
+        item: Item,
+        index: number,
+        array: StructArray<Item>,
+      ) => unknown,
+    ): boolean
+  }
+
+/**
+ * Class returned by `defineArray`.
+ * If its length is fixed, it can be constructed without specifying a `byteLength`
+ */
+export type DefinedArray<Item extends object> =
+  & StructConstructor<StructArray<Item>>
+  & {
+    new (arg?: ConstructorParameters<typeof Struct>[0]): StructArray<Item>
+    /** size in bytes of the array, if its length is fixed */
+    readonly byteLength: number | undefined
+    /** alignment in bytes required by the items */
+    readonly byteAlign: number | undefined
+    /** byte order of the array if declared */
+    readonly littleEndian: boolean | undefined
+    /** constructor for each item */
+    readonly struct: StructConstructor<Item>
+    /** number of bytes between the start of consecutive items */
+    readonly byteStride: number
+    /** JSON Schema describing the JSON form of an instance, as produced by `jsonSymbol` */
+    jsonSchema(): JsonSchema
+  }
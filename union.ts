@@ -0,0 +1,151 @@
+/**
+ * Tools for declaring a struct whose members are alternative views of the same bytes, like a C union
+ * @module
+ */
+
+import { defineStruct, jsonSymbol, type Struct } from "./core.ts"
+import { substruct } from "./fields.ts"
+import type {
+  AnyStruct,
+  DefinedStruct,
+  JsonSchema,
+  MixinFromProps,
+  StructConstructor,
+  StructPropertyDescriptor,
+} from "./types.ts"
+
+/**
+ * A member of a union: either a struct class, viewed from the start of the union, or a field
+ */
+export type UnionMember =
+  | StructConstructor<object>
+  | StructPropertyDescriptor<unknown>
+
+/**
+ * Property descriptors for the members of a union
+ */
+export type UnionProps<Members extends Record<string, UnionMember>> = {
+  [K in keyof Members]: Members[K] extends StructConstructor<infer T>
+    ? StructPropertyDescriptor<T>
+    : Members[K] extends StructPropertyDescriptor<infer V>
+      ? StructPropertyDescriptor<V>
+    : never
+}
+
+/**
+ * Options for `defineUnion`
+ */
+export type UnionOptions<Members extends Record<string, UnionMember>> = {
+  /** size in bytes of the union. Defaults to the size of its largest member */
+  readonly byteLength?: number
+  /** byte order of the union, as in `defineStruct` */
+  readonly littleEndian?: boolean
+  /** define a `toJSON` method on instances, as in `defineStruct` */
+  readonly toJSON?: boolean
+  /** function telling which member currently holds meaningful data, if that can be determined */
+  readonly active?: (
+    union: MixinFromProps<UnionProps<Members>>,
+  ) => keyof Members | undefined
+}
+
+/**
+ * Static information about the members of a union
+ */
+export type UnionStatics<Keys extends PropertyKey> = {
+  /** names of the members, in declaration order */
+  readonly members: readonly Keys[]
+  /**
+   * Which member currently holds meaningful data
+   * @param union an instance of the union
+   * @returns the name of the active member, or undefined if it is not known
+   */
+  activeMember(union: AnyStruct): Keys | undefined
+}
+
+declare const unionBrand: unique symbol
+
+/**
+ * Type-only marker of union instances, whose plain form includes only the active member, so that every member is optional in `PlainObject`
+ */
+export type UnionBrand = { readonly [unionBrand]: true }
+
+/**
+ * Struct class produced by `defineUnion`
+ */
+export type DefinedUnion<Members extends Record<string, UnionMember>> =
+  & {
+    [K in keyof DefinedStruct<UnionProps<Members>>]: DefinedStruct<
+      UnionProps<Members>
+    >[K]
+  }
+  & UnionStatics<keyof Members>
+  & {
+    new (
+      arg?: ConstructorParameters<typeof Struct>[0],
+    ): Struct & MixinFromProps<UnionProps<Members>> & UnionBrand
+  }
+
+/**
+ * Subclass struct with members which overlap one another, like a C union.
+ * The union is as large as its largest member, and members are checked to fit within it.
+ * Its JSON form includes only the active member, if that can be determined.
+ *
+ * @example
+ * ```ts
+ * class Value extends defineUnion({
+ *   asInt: i32(0),
+ *   asFloat: f32(0),
+ *   asPoint: Point, // a struct class, viewed from the start of the union
+ * }) {}
+ * ```
+ * @param members struct classes or fields, which may overlap
+ * @param options size, byte order, and how to find the active member
+ * @returns A new class, inheriting from `Struct`, with a property for each member
+ */
+export function defineUnion<
+  const Members extends Record<string, UnionMember>,
+>(
+  members: Members,
+  options: UnionOptions<Members> = {},
+): DefinedUnion<Members> {
+  const descriptors: PropertyDescriptorMap = {}
+  for (const [key, member] of Object.entries(members)) {
+    descriptors[key] = typeof member === "function"
+      ? substruct(member, 0)
+      : member
+  }
+  const keys = Object.keys(members) as (keyof Members & string)[]
+  const { active } = options
+  return class extends defineStruct(descriptors, {
+    byteLength: options.byteLength,
+    littleEndian: options.littleEndian,
+    toJSON: options.toJSON,
+    validate: true,
+    unions: [keys],
+  }) {
+    declare readonly [unionBrand]: true
+    static readonly members = Object.freeze(keys)
+    static activeMember(union: AnyStruct) {
+      return active?.(union as MixinFromProps<UnionProps<Members>>)
+    }
+    static override jsonSchema(): JsonSchema {
+      // any member may be left out
+      const { required: _, ...schema } = super.jsonSchema()
+      return schema
+    }
+    override [jsonSymbol](): unknown {
+      const result = super[jsonSymbol]() as Record<string, unknown>
+      const activeMember = active?.(
+        this as unknown as MixinFromProps<UnionProps<Members>>,
+      )
+      if (activeMember !== undefined) {
+        for (const key of keys) {
+          if (key !== activeMember) {
+            delete result[key]
+          }
+        }
+      }
+      return result
+    }
+  } as DefinedUnion<Members>
+}
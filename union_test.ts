@@ -0,0 +1,70 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert"
+import { defineStruct, structBytes } from "./core.ts"
+import { f32, i32, u16, u8 } from "./fields.ts"
+import { defineUnion } from "./union.ts"
+
+Deno.test("union", () => {
+  class Point extends defineStruct({ x: u16(0), y: u16(2) }) {}
+  class Value extends defineUnion({
+    asInt: i32(0),
+    asFloat: f32(0),
+    asPoint: Point,
+    asByte: u8(0),
+  }) {}
+  assertEquals(Value.byteLength, 4)
+  assertEquals(Value.byteAlign, 4)
+  assertEquals(Value.members, ["asInt", "asFloat", "asPoint", "asByte"])
+  assertEquals(Value.activeMember(new Value()), undefined)
+
+  const value = new Value()
+  value.asFloat = 1
+  assertEquals(value.asInt, 0x3f800000)
+  assertInstanceOf(value.asPoint, Point)
+  assertEquals(value.asPoint.y, 0x3f80)
+  value.asPoint.x = 1
+  assertEquals(value.asByte, 1)
+  assertEquals([...structBytes(value)], [1, 0, 0x80, 0x3f])
+
+  class Padded extends defineUnion({ a: u8(0), b: u16(0) }, {
+    byteLength: 8,
+  }) {}
+  assertEquals(Padded.byteLength, 8)
+  assertThrows(
+    () => defineUnion({ a: u8(0), b: i32(0) }, { byteLength: 2 }),
+    RangeError,
+  )
+})
+
+Deno.test("union active member", () => {
+  class Numeric extends defineUnion({
+    asInt: i32(4),
+    asFloat: f32(4),
+    isFloat: u8(0),
+  }, {
+    active: (n) => n.isFloat ? "asFloat" : "asInt",
+  }) {}
+  const n = new Numeric()
+  assertEquals(Numeric.activeMember(n), "asInt")
+  n.isFloat = 1
+  assertEquals(Numeric.activeMember(n), "asFloat")
+})
+
+Deno.test("union JSON", () => {
+  class Value extends defineUnion({
+    isInt: u8(0),
+    asInt: i32(4),
+    asFloat: f32(4),
+  }, { active: (v) => v.isInt ? "asInt" : "asFloat", toJSON: true }) {}
+  const schema = Value.jsonSchema()
+  assertEquals(schema.required, undefined)
+  assertEquals(Object.keys(schema.properties ?? {}), [
+    "isInt",
+    "asInt",
+    "asFloat",
+  ])
+  const value = new Value()
+  value.asFloat = 0.5
+  assertEquals(JSON.parse(JSON.stringify(value)), { asFloat: 0.5 })
+  value.isInt = 1
+  assertEquals(JSON.parse(JSON.stringify(value)), { asInt: 0x3f000000 })
+})
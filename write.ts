@@ -0,0 +1,56 @@
+/**
+ * Writing plain objects into structs, shared by the modules which accept plain objects in place of structs
+ * @module
+ */
+
+function isWritable(target: object, key: string): boolean {
+  for (
+    let o: object | null = target;
+    o !== null;
+    o = Object.getPrototypeOf(o)
+  ) {
+    const descriptor = Reflect.getOwnPropertyDescriptor(o, key)
+    if (descriptor) {
+      return descriptor.set !== undefined || descriptor.writable === true
+    }
+  }
+  return false
+}
+
+/**
+ * Write a plain object into a struct, as `fromObject` does: fields are assigned, and embedded structs and arrays of structs are written recursively
+ */
+export function writeInto(target: object, value: object) {
+  if (Symbol.iterator in target && Array.isArray(value)) {
+    const item: unknown = Reflect.get(target, "item")
+    if (typeof item !== "function") {
+      throw new TypeError("cannot write items into this array")
+    }
+    for (let i = 0; i < value.length; ++i) {
+      writeInto(item.call(target, i), value[i])
+    }
+    return
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (!(key in target)) {
+      throw new TypeError(`unknown field '${key}'`)
+    }
+    const current: unknown = Reflect.get(target, key)
+    if (isWritable(target, key)) {
+      Reflect.set(
+        target,
+        key,
+        typeof current === "bigint" && typeof item !== "bigint"
+          ? BigInt(item)
+          : item,
+      )
+    } else if (
+      typeof current === "object" && current !== null &&
+      typeof item === "object" && item !== null
+    ) {
+      writeInto(current, item)
+    } else {
+      throw new TypeError(`field '${key}' is not writable`)
+    }
+  }
+}